@@ -0,0 +1,282 @@
+import dns from "dns";
+import { ISPFResolver, spf_resolver_error_is_void } from "./SPFResolver";
+
+export const SPF_CACHE_DEFAULT_MAX_ENTRIES: number = 10000;
+export const SPF_CACHE_DEFAULT_TTL: number = 300; // Seconds, for answers without a known TTL.
+export const SPF_CACHE_DEFAULT_NEGATIVE_TTL: number = 60; // Seconds, for NXDOMAIN and no data.
+export const SPF_CACHE_DEFAULT_MAX_TTL: number = 86400; // Seconds, caps the TTL of the records.
+
+/**
+ * A cache, either synchronous (like the in-memory LRU cache) or asynchronous
+ *  (like a Redis backed one). The stored values are JSON-serializable.
+ */
+export interface ISPFCache {
+  /**
+   * Gets the value of the given key.
+   * @param key the key.
+   * @returns the value, undefined if missing or expired.
+   */
+  get(key: string): unknown | Promise<unknown>;
+
+  /**
+   * Sets the value of the given key.
+   * @param key the key.
+   * @param value the value.
+   * @param ttl the number of seconds the value may be cached.
+   */
+  set(key: string, value: unknown, ttl: number): void | Promise<void>;
+}
+
+interface ISPFLRUCacheEntry {
+  value: unknown; // The cached value.
+  expires: number | null; // The timestamp (in milliseconds) the value expires, null if never.
+}
+
+export class SPFLRUCache implements ISPFCache {
+  /**
+   * The entries, the least recently used first.
+   */
+  protected readonly _entries: Map<string, ISPFLRUCacheEntry> = new Map();
+
+  /**
+   * Constructs a new in-memory LRU cache.
+   * @param maxEntries the number of entries after which the least recently used are evicted.
+   */
+  public constructor(
+    public readonly maxEntries: number = SPF_CACHE_DEFAULT_MAX_ENTRIES
+  ) {}
+
+  /**
+   * Gets the number of (possibly expired) entries.
+   */
+  public get size(): number {
+    return this._entries.size;
+  }
+
+  /**
+   * Gets the value of the given key, and marks it as most recently used.
+   * @param key the key.
+   * @returns the value, undefined if missing or expired.
+   */
+  public get(key: string): unknown {
+    const entry: ISPFLRUCacheEntry | undefined = this._entries.get(key);
+    if (entry === undefined) {
+      return undefined;
+    }
+
+    this._entries.delete(key);
+    if (entry.expires !== null && entry.expires <= Date.now()) {
+      return undefined;
+    }
+
+    this._entries.set(key, entry);
+    return entry.value;
+  }
+
+  /**
+   * Sets the value of the given key, evicting the least recently used entry if full.
+   * @param key the key.
+   * @param value the value.
+   * @param ttl the number of seconds the value may be cached, null for no expiry.
+   */
+  public set(key: string, value: unknown, ttl: number | null = null): void {
+    this._entries.delete(key);
+    this._entries.set(key, {
+      value,
+      expires: ttl !== null ? Date.now() + ttl * 1000 : null,
+    });
+
+    if (this._entries.size > this.maxEntries) {
+      this._entries.delete(this._entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Removes all the entries.
+   */
+  public clear(): void {
+    this._entries.clear();
+  }
+}
+
+export interface ISPFCachingResolverOptions {
+  defaultTtl?: number; // Seconds to cache answers of which the resolver gives no TTL.
+  negativeTtl?: number; // Seconds to cache NXDOMAIN and no data answers.
+  maxTtl?: number; // Maximum number of seconds to cache an answer.
+}
+
+interface ISPFTtlAnswer<T> {
+  records: T[]; // The records.
+  ttl: number | null; // The number of seconds the records may be cached, null if unknown.
+}
+
+interface ISPFCachedAnswer {
+  records?: unknown[]; // The records, if there were any.
+  code?: string; // The error code, if the answer was empty.
+}
+
+export class SPFCachingResolver implements ISPFResolver {
+  /**
+   * Constructs a new caching resolver, caching the answers of the given resolver.
+   *  Node's dns module only gives the TTL of A and AAAA records, the other answers
+   *  are cached for the default TTL.
+   * @param resolver the resolver to cache the answers of.
+   * @param cache the cache, defaults to a new in-memory LRU cache.
+   * @param options the caching options.
+   */
+  public constructor(
+    public readonly resolver: ISPFResolver,
+    public readonly cache: ISPFCache = new SPFLRUCache(),
+    public readonly options: ISPFCachingResolverOptions = {}
+  ) {}
+
+  /**
+   * Resolves the TXT records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the TXT records, each as an array of character-strings.
+   */
+  public resolveTxt(hostname: string): Promise<string[][]> {
+    return this._cached("TXT", hostname, () =>
+      this._withoutTtl(this.resolver.resolveTxt(hostname))
+    );
+  }
+
+  /**
+   * Resolves the A records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the IPv4 addresses.
+   */
+  public resolve4(hostname: string): Promise<string[]> {
+    return this._cached("A", hostname, () =>
+      this.resolver.resolve4WithTtl !== undefined
+        ? this._withTtl(this.resolver.resolve4WithTtl(hostname))
+        : this._withoutTtl(this.resolver.resolve4(hostname))
+    );
+  }
+
+  /**
+   * Resolves the AAAA records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the IPv6 addresses.
+   */
+  public resolve6(hostname: string): Promise<string[]> {
+    return this._cached("AAAA", hostname, () =>
+      this.resolver.resolve6WithTtl !== undefined
+        ? this._withTtl(this.resolver.resolve6WithTtl(hostname))
+        : this._withoutTtl(this.resolver.resolve6(hostname))
+    );
+  }
+
+  /**
+   * Resolves the MX records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the mail exchanges.
+   */
+  public resolveMx(hostname: string): Promise<dns.MxRecord[]> {
+    return this._cached("MX", hostname, () =>
+      this._withoutTtl(this.resolver.resolveMx(hostname))
+    );
+  }
+
+  /**
+   * Performs a reverse (PTR) lookup of the given address.
+   * @param address the encoded IPv4 or IPv6 address.
+   * @returns the hostnames.
+   */
+  public reverse(address: string): Promise<string[]> {
+    return this._cached("PTR", address, () =>
+      this._withoutTtl(this.resolver.reverse(address))
+    );
+  }
+
+  /**
+   * Gets the answer of the given query from the cache, or performs the query and
+   *  caches its answer. Empty answers are cached as well, failures are not.
+   * @param type the queried record type.
+   * @param hostname the queried hostname.
+   * @param query performs the query, giving the records and their possible TTL.
+   * @returns the records.
+   * @protected
+   */
+  protected async _cached<T>(
+    type: string,
+    hostname: string,
+    query: () => Promise<ISPFTtlAnswer<T>>
+  ): Promise<T[]> {
+    const key: string = `${type}:${hostname.toLowerCase().replace(/\.$/, "")}`;
+
+    // Answers from the cache, rejecting the same way as the resolver for empty answers.
+    const cached: ISPFCachedAnswer | undefined = (await this.cache.get(key)) as
+      | ISPFCachedAnswer
+      | undefined;
+    if (cached?.records !== undefined) {
+      return (cached.records as T[]).slice();
+    } else if (cached?.code !== undefined) {
+      const error: NodeJS.ErrnoException = new Error(
+        `${type} ${cached.code} ${hostname}`
+      );
+      error.code = cached.code;
+      throw error;
+    }
+
+    // Performs the query, and caches the answer.
+    try {
+      const answer: ISPFTtlAnswer<T> = await query();
+      await this.cache.set(
+        key,
+        { records: answer.records },
+        Math.min(
+          answer.ttl ?? this.options.defaultTtl ?? SPF_CACHE_DEFAULT_TTL,
+          this.options.maxTtl ?? SPF_CACHE_DEFAULT_MAX_TTL
+        )
+      );
+      return answer.records;
+    } catch (e) {
+      // [RFC2308] Negative answers may be cached as well.
+      if (spf_resolver_error_is_void(e)) {
+        await this.cache.set(
+          key,
+          { code: (e as NodeJS.ErrnoException).code },
+          this.options.negativeTtl ?? SPF_CACHE_DEFAULT_NEGATIVE_TTL
+        );
+      }
+
+      throw e;
+    }
+  }
+
+  /**
+   * Awaits the given records with TTLs, using the lowest TTL for the answer.
+   * @param query the query.
+   * @returns the addresses and the TTL.
+   * @protected
+   */
+  protected async _withTtl(
+    query: Promise<dns.RecordWithTtl[]>
+  ): Promise<ISPFTtlAnswer<string>> {
+    const records: dns.RecordWithTtl[] = await query;
+    return {
+      records: records.map(
+        (record: dns.RecordWithTtl): string => record.address
+      ),
+      ttl:
+        records.length > 0
+          ? Math.min(
+              ...records.map((record: dns.RecordWithTtl): number => record.ttl)
+            )
+          : null,
+    };
+  }
+
+  /**
+   * Awaits the given records, of which the TTL is unknown.
+   * @param query the query.
+   * @returns the records, without TTL.
+   * @protected
+   */
+  protected async _withoutTtl<T>(
+    query: Promise<T[]>
+  ): Promise<ISPFTtlAnswer<T>> {
+    return { records: await query, ttl: null };
+  }
+}
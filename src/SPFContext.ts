@@ -1,4 +1,5 @@
 import { IPv4Address, IPv6Address } from "llibipaddress";
+import { SPFCheckedIdentity } from "./SPFCheckedIdentity";
 
 export interface ISPFContextServer {
   hostname: string; // Our hostname.
@@ -17,5 +18,10 @@ export interface ISPFContextMessage {
 export interface ISPFContext {
   server: ISPFContextServer;
   client: ISPFContextClient;
-  message: ISPFContextMessage;
-}
\ No newline at end of file
+  message: ISPFContextMessage | null; // Null when MAIL FROM is null (bounce messages).
+}
+
+export interface ISPFCheckedContext extends ISPFContext {
+  sender: ISPFContextMessage; // The sender in the macro's, postmaster@<helo> for HELO or a null MAIL FROM.
+  identity: SPFCheckedIdentity; // The checked identity.
+}
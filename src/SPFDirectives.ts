@@ -1,9 +1,16 @@
 import { IPv4Address, IPv6Address } from "llibipaddress";
-import { ISPFContext } from "./SPFContext";
+import { ISPFCheckedContext } from "./SPFContext";
 import { SPFRecord } from "./SPFRecord";
 import dns from "dns";
-import util from "util";
-import { SPFNetworkingError, SPFSyntacticalError } from "./SPFErrors";
+import {
+  SPFIncludeError,
+  SPFLimitError,
+  SPFNetworkingError,
+  SPFSyntacticalError,
+} from "./SPFErrors";
+import { SPFResult, SPFResultType } from "./SPFResult";
+import { SPFEvaluation, SPF_MAX_NAME_LOOKUPS } from "./SPFEvaluation";
+import { spf_domain_within } from "./SPFResolver";
 
 export enum SPFDirectiveMechanismKeywords {
   A = "a",
@@ -40,9 +47,9 @@ export const spf_directive_qualifier_parse = (
       return SPFDirectiveQualifier.Pass;
     case "-":
       return SPFDirectiveQualifier.Fail;
-    case "?":
-      return SPFDirectiveQualifier.SoftFail;
     case "~":
+      return SPFDirectiveQualifier.SoftFail;
+    case "?":
       return SPFDirectiveQualifier.Neutral;
     default:
       throw new SPFSyntacticalError(
@@ -51,6 +58,30 @@ export const spf_directive_qualifier_parse = (
   }
 };
 
+/**
+ * Encodes an SPF Directive's qualifier.
+ * @param qualifier the qualifier enum value.
+ * @param explicit if the (default) pass qualifier should be written.
+ * @returns the raw qualifier.
+ */
+export const spf_directive_qualifier_encode = (
+  qualifier: SPFDirectiveQualifier,
+  explicit: boolean = false
+): string => {
+  switch (qualifier) {
+    case SPFDirectiveQualifier.Pass:
+      return explicit ? "+" : "";
+    case SPFDirectiveQualifier.Fail:
+      return "-";
+    case SPFDirectiveQualifier.SoftFail:
+      return "~";
+    case SPFDirectiveQualifier.Neutral:
+      return "?";
+    default:
+      throw new Error("Invalid qualifier!");
+  }
+};
+
 export class SPFMechanismResult {
   public constructor(
     public match: boolean,
@@ -58,6 +89,120 @@ export class SPFMechanismResult {
   ) {}
 }
 
+/////////////////////////////////////////////////
+// Dual CIDR Length Class.
+/////////////////////////////////////////////////
+
+export class SPFDualCIDRLength {
+  /**
+   * Constructs a new dual CIDR length.
+   * @param ipv4 the possible IPv4 prefix length.
+   * @param ipv6 the possible IPv6 prefix length.
+   */
+  public constructor(
+    public readonly ipv4: number | null = null,
+    public readonly ipv6: number | null = null
+  ) {}
+
+  /**
+   * Parses the possible dual CIDR length at the end of a mechanism's value.
+   * @param value the value of the key/value pair, e.g. 'example.com/24//64'.
+   * @returns the possible domain, and the dual CIDR length.
+   */
+  public static parse(
+    value: string | null
+  ): [string | null, SPFDualCIDRLength] {
+    if (value === null) {
+      return [null, new this()];
+    } else if (value.length === 0) {
+      throw new SPFSyntacticalError("Mechanism has empty domain argument!");
+    }
+
+    // Matches the possible '/N', '//N' or '/N//N' prefix lengths at the end, the
+    //  rest is the domain, which may only contain a slash as macro delimiter.
+    const match: RegExpMatchArray = value.match(
+      /^(?<domain>.*?)(?:\/(?<ipv4>[0-9]+))?(?:\/\/(?<ipv6>[0-9]+))?$/
+    )!;
+    const domain: string = match.groups!.domain;
+    if (domain.replace(/%\{[^}]*\}/g, "").includes("/")) {
+      throw new SPFSyntacticalError(`Invalid domain or CIDR length: ${value}`);
+    }
+
+    // Returns the domain, and the parsed prefix lengths.
+    return [
+      domain.length > 0 ? domain : null,
+      new this(
+        SPFDualCIDRLength._parseLength(match.groups!.ipv4, 32),
+        SPFDualCIDRLength._parseLength(match.groups!.ipv6, 128)
+      ),
+    ];
+  }
+
+  /**
+   * Parses a single prefix length.
+   * @param raw the raw prefix length.
+   * @param max the maximum prefix length.
+   * @returns the parsed prefix length.
+   * @protected
+   */
+  protected static _parseLength(
+    raw: string | undefined,
+    max: number
+  ): number | null {
+    if (raw === undefined) {
+      return null;
+    }
+
+    // [RFC7208] Leading zeros are not allowed, and it may not exceed the address size.
+    const length: number = parseInt(raw);
+    if ((raw.length > 1 && raw.startsWith("0")) || length > max) {
+      throw new SPFSyntacticalError(`Invalid CIDR length: ${raw}`);
+    }
+
+    return length;
+  }
+
+  /**
+   * Checks if the client address is in the range of the given address.
+   * @param client the client address.
+   * @param address the encoded address to match against.
+   * @returns if the client is in the range.
+   */
+  public match(client: IPv4Address | IPv6Address, address: string): boolean {
+    if (client instanceof IPv4Address) {
+      return this.ipv4 !== null
+        ? client.cidr_match(IPv4Address.decode(`${address}/${this.ipv4}`))
+        : client.equals(IPv4Address.decode(address));
+    }
+
+    return this.ipv6 !== null
+      ? client.cidr_match(IPv6Address.decode(`${address}/${this.ipv6}`))
+      : client.equals(IPv6Address.decode(address));
+  }
+
+  /**
+   * Gets the range the client address is matched against.
+   * @param client the client address.
+   * @param address the encoded address to match against.
+   * @returns the range, e.g. '192.0.2.1/24'.
+   */
+  public range(client: IPv4Address | IPv6Address, address: string): string {
+    const length: number | null =
+      client instanceof IPv4Address ? this.ipv4 : this.ipv6;
+    return length !== null ? `${address}/${length}` : address;
+  }
+
+  /**
+   * Gets the string version of the dual CIDR length.
+   * @returns the string version, empty if there are no prefix lengths.
+   */
+  public toString(): string {
+    return `${this.ipv4 !== null ? `/${this.ipv4}` : ""}${
+      this.ipv6 !== null ? `//${this.ipv6}` : ""
+    }`;
+  }
+}
+
 /////////////////////////////////////////////////
 // Mechanism Extensible Class.
 /////////////////////////////////////////////////
@@ -66,9 +211,15 @@ export class SPFMechanism {
   /**
    * Performs the validation of the current mechanism, using the supplied context.
    * @param context the context of the validation.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param domain the current domain, whose record is being evaluated.
    * @returns the result of the validation.
    */
-  public async match(context: ISPFContext): Promise<SPFMechanismResult> {
+  public async match(
+    context: ISPFCheckedContext,
+    evaluation: SPFEvaluation,
+    domain: string
+  ): Promise<SPFMechanismResult> {
     return new SPFMechanismResult(
       false,
       "Mechanism has no validation implemented."
@@ -107,9 +258,15 @@ export class SPFAllMechanism extends SPFMechanism {
   /**
    * Performs the validation of the current mechanism, using the supplied context.
    * @param context the context of the validation.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param domain the current domain, whose record is being evaluated.
    * @returns the result of the validation.
    */
-  public async match(context: ISPFContext): Promise<SPFMechanismResult> {
+  public async match(
+    context: ISPFCheckedContext,
+    evaluation: SPFEvaluation,
+    domain: string
+  ): Promise<SPFMechanismResult> {
     return new SPFMechanismResult(true);
   }
 
@@ -140,7 +297,7 @@ export class SPFIncludeMechanism extends SPFMechanism {
    * @returns the parsed mechanism.
    */
   public static parse(value: string | null): SPFAllMechanism {
-    if (value === null) {
+    if (value === null || value.length === 0) {
       throw new SPFSyntacticalError(
         '"include" mechanism must have one domain argument!'
       );
@@ -152,40 +309,51 @@ export class SPFIncludeMechanism extends SPFMechanism {
   /**
    * Performs the validation of the current mechanism, using the supplied context.
    * @param context the context of the validation.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param domain the current domain, whose record is being evaluated.
    * @returns the result of the validation.
    */
-  public async match(context: ISPFContext): Promise<SPFMechanismResult> {
-    // Gets the SPF record of the given domain.
-    const spfRecord: SPFRecord | null = await SPFRecord.resolve(
-      this.domain,
-      context
+  public async match(
+    context: ISPFCheckedContext,
+    evaluation: SPFEvaluation,
+    domain: string
+  ): Promise<SPFMechanismResult> {
+    // Counts the lookup of the included record.
+    evaluation.countLookup(this.toString());
+
+    // Evaluates the included domain, as if it were a separate check, as part
+    //  of the same evaluation.
+    const result: SPFResult = await evaluation.validator.checkHost(
+      await evaluation.expand(this.domain, domain),
+      evaluation
     );
-    if (spfRecord === null) {
-      throw new SPFNetworkingError(
-        `Could not include SPF record for: ${this.domain}`
-      );
-    }
 
-    // Matches the directives... We only will use PASS ones
-    //  the rest like fail, are ignored.
-    for (const directive of spfRecord.directives) {
-      // Gets the qualifier and the mechanism.
-      const qualifier: SPFDirectiveQualifier = directive.qualifier;
-      const mechanism: SPFMechanism = directive.mechanism;
-
-      // Matches the mechanism.
-      const mechanismResult: SPFMechanismResult = await mechanism.match(
-        context
-      );
-
-      // Checks if the mechanism result passed, if so return a true.
-      if (mechanismResult.match === true && qualifier === SPFDirectiveQualifier.Pass) {
-        return new SPFMechanismResult(true, `${mechanism.toString()} matched.`);
-      }
+    // Maps the result of the included check to a match [RFC7208 5.2], the
+    //  problem behind an error is passed through as-is.
+    switch (result.type) {
+      case SPFResultType.Pass:
+        return new SPFMechanismResult(
+          true,
+          `${this.toString()} resulted in ${result.type}: ${result.comment}`
+        );
+      case SPFResultType.Fail:
+      case SPFResultType.SoftFail:
+      case SPFResultType.Neutral:
+        return new SPFMechanismResult(
+          false,
+          `${this.toString()} resulted in ${result.type}: ${result.comment}`
+        );
+      case SPFResultType.TempError:
+        throw new SPFNetworkingError(result.comment!);
+      case SPFResultType.PermError:
+        throw new SPFIncludeError(result.comment!);
+      case SPFResultType.None:
+        throw new SPFIncludeError(
+          `${this.toString()} resulted in ${result.type}: ${result.comment}`
+        );
+      default:
+        throw new Error("Included check has invalid result!");
     }
-
-    // Default returning, nothing matched.
-    return new SPFMechanismResult(false);
   }
 
   /**
@@ -202,7 +370,15 @@ export class SPFIncludeMechanism extends SPFMechanism {
 /////////////////////////////////////////////////
 
 export class SPFAMechanism extends SPFMechanism {
-  public constructor(public readonly domain: string | null) {
+  /**
+   * Constructs a new SPF A mechanism.
+   * @param domain the possible domain, if not there the current domain is used.
+   * @param cidr the dual CIDR length.
+   */
+  public constructor(
+    public readonly domain: string | null,
+    public readonly cidr: SPFDualCIDRLength = new SPFDualCIDRLength()
+  ) {
     super();
   }
 
@@ -211,38 +387,44 @@ export class SPFAMechanism extends SPFMechanism {
    * @param value the value of the key/value pair.
    * @returns the parsed mechanism.
    */
-  public static parse(value: string | null): SPFAllMechanism {
-    return new this(value);
+  public static parse(value: string | null): SPFAMechanism {
+    const [domain, cidr] = SPFDualCIDRLength.parse(value);
+    return new this(domain, cidr);
   }
 
   /**
    * Performs the validation of the current mechanism, using the supplied context.
    * @param context the context of the validation.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param domain the current domain, whose record is being evaluated.
    * @returns the result of the validation.
    */
-  public async match(context: ISPFContext): Promise<SPFMechanismResult> {
+  public async match(
+    context: ISPFCheckedContext,
+    evaluation: SPFEvaluation,
+    domain: string
+  ): Promise<SPFMechanismResult> {
+    // Counts the lookup of the A records.
+    evaluation.countLookup(this.toString());
+
     if (context.client.ipAddress instanceof IPv4Address) {
       // Resolves the A records of the current domain, or of the domain in the context.
-      const rawAddresses: string[] = await util.promisify(dns.resolve4)(
-        this.domain ?? context.message.emailDomain
-      );
-
-      // Parses the raw addresses.
-      const addresses: IPv4Address[] = rawAddresses.map(
-        (address: string): IPv4Address => IPv4Address.decode(address)
+      const addresses: string[] = await evaluation.resolve4(
+        this.domain !== null
+          ? await evaluation.expand(this.domain, domain)
+          : domain
       );
 
       // Matches the client IP address against the addresses in the array.
       for (const address of addresses) {
-        if (address.cidr && context.client.ipAddress.cidr_match(address)) {
-          return new SPFMechanismResult(
-            true,
-            `Clients IPv4 ${context.client.ipAddress.encode()} is in the CIDR range ${address.encode()}`
+        if (this.cidr.match(context.client.ipAddress, address)) {
+          const range: string = this.cidr.range(
+            context.client.ipAddress,
+            address
           );
-        } else if (!address.cidr && context.client.ipAddress.equals(address)) {
           return new SPFMechanismResult(
             true,
-            `Clients IPv4 ${context.client.ipAddress.encode()} is mentioned in A record.`
+            `Clients IPv4 ${context.client.ipAddress.encode()} is in the range ${range} of A record.`
           );
         }
       }
@@ -253,27 +435,23 @@ export class SPFAMechanism extends SPFMechanism {
         `Clients IPv4 ${context.client.ipAddress.encode()} is not mentioned, nor in any CIDR range.`
       );
     } else if (context.client.ipAddress instanceof IPv6Address) {
-      // Resolves the A records of the current domain, or of the domain in the context.
-      const rawAddresses: string[] = await util.promisify(dns.resolve6)(
-        this.domain ?? context.message.emailDomain
-      );
-
-      // Parses the raw addresses.
-      const addresses: IPv6Address[] = rawAddresses.map(
-        (address: string): IPv6Address => IPv6Address.decode(address)
+      // Resolves the AAAA records of the current domain, or of the domain in the context.
+      const addresses: string[] = await evaluation.resolve6(
+        this.domain !== null
+          ? await evaluation.expand(this.domain, domain)
+          : domain
       );
 
       // Matches the client IP address against the addresses in the array.
       for (const address of addresses) {
-        if (address.cidr && context.client.ipAddress.cidr_match(address)) {
-          return new SPFMechanismResult(
-            true,
-            `Clients IPv6 ${context.client.ipAddress.encode()} is in the CIDR range ${address.encode()}`
+        if (this.cidr.match(context.client.ipAddress, address)) {
+          const range: string = this.cidr.range(
+            context.client.ipAddress,
+            address
           );
-        } else if (!address.cidr && context.client.ipAddress.equals(address)) {
           return new SPFMechanismResult(
             true,
-            `Clients IPv6 ${context.client.ipAddress.encode()} is mentioned in A record.`
+            `Clients IPv6 ${context.client.ipAddress.encode()} is in the range ${range} of AAAA record.`
           );
         }
       }
@@ -294,10 +472,12 @@ export class SPFAMechanism extends SPFMechanism {
    */
   public toString(): string {
     if (this.domain !== null) {
-      return `${SPFDirectiveMechanismKeywords.A}:${this.domain}`;
+      return `${SPFDirectiveMechanismKeywords.A}:${
+        this.domain
+      }${this.cidr.toString()}`;
     }
 
-    return SPFDirectiveMechanismKeywords.A;
+    return `${SPFDirectiveMechanismKeywords.A}${this.cidr.toString()}`;
   }
 }
 
@@ -306,7 +486,15 @@ export class SPFAMechanism extends SPFMechanism {
 /////////////////////////////////////////////////
 
 export class SPFMXMechanism extends SPFMechanism {
-  public constructor(public readonly domain: string | null) {
+  /**
+   * Constructs a new SPF MX mechanism.
+   * @param domain the possible domain, if not there the current domain is used.
+   * @param cidr the dual CIDR length.
+   */
+  public constructor(
+    public readonly domain: string | null,
+    public readonly cidr: SPFDualCIDRLength = new SPFDualCIDRLength()
+  ) {
     super();
   }
 
@@ -315,46 +503,62 @@ export class SPFMXMechanism extends SPFMechanism {
    * @param value the value of the key/value pair.
    * @returns the parsed mechanism.
    */
-  public static parse(value: string | null): SPFAllMechanism {
-    return new this(value);
+  public static parse(value: string | null): SPFMXMechanism {
+    const [domain, cidr] = SPFDualCIDRLength.parse(value);
+    return new this(domain, cidr);
   }
 
   /**
    * Performs the validation of the current mechanism, using the supplied context.
    * @param context the context of the validation.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param domain the current domain, whose record is being evaluated.
    * @returns the result of the validation.
    */
-  public async match(context: ISPFContext): Promise<SPFMechanismResult> {
+  public async match(
+    context: ISPFCheckedContext,
+    evaluation: SPFEvaluation,
+    domain: string
+  ): Promise<SPFMechanismResult> {
+    // Counts the lookup of the mail exchanges.
+    evaluation.countLookup(this.toString());
+
     // Gets all the mail exchanges.
-    const mailExchanges: dns.MxRecord[] = await util.promisify(dns.resolveMx)(
-      this.domain ?? context.message.emailDomain
+    const mailExchanges: dns.MxRecord[] = await evaluation.resolveMx(
+      this.domain !== null
+        ? await evaluation.expand(this.domain, domain)
+        : domain
     );
 
+    // Makes sure we won't resolve the addresses of too many exchanges.
+    if (mailExchanges.length > SPF_MAX_NAME_LOOKUPS) {
+      throw new SPFLimitError(
+        `${this.toString()} resulted in more than ${SPF_MAX_NAME_LOOKUPS} mail exchanges.`
+      );
+    }
+
     // Validates depending on the IP address type.
     if (context.client.ipAddress instanceof IPv4Address) {
       // Gets all the addresses to match against.
-      const addresses: IPv4Address[] = (
+      const addresses: string[] = (
         await Promise.all(
           mailExchanges.map(
-            async (mx: dns.MxRecord, index: number): Promise<IPv4Address[]> => {
-              const rawAddresses: string[] = await util.promisify(dns.resolve4)(
-                mx.exchange
-              );
-              return rawAddresses.map(
-                (address: string, index: number): IPv4Address =>
-                  IPv4Address.decode(address)
-              );
-            }
+            (mx: dns.MxRecord, index: number): Promise<string[]> =>
+              evaluation.resolve4(mx.exchange, false)
           )
         )
       ).flat();
 
       // Matches against all the addresses.
       for (const address of addresses) {
-        if (address.equals(context.client.ipAddress)) {
+        if (this.cidr.match(context.client.ipAddress, address)) {
+          const range: string = this.cidr.range(
+            context.client.ipAddress,
+            address
+          );
           return new SPFMechanismResult(
             true,
-            `Client IPv4 ${context.client.ipAddress.encode()} is mentioned as mail exchange.`
+            `Client IPv4 ${context.client.ipAddress.encode()} is in the range ${range} of a mail exchange.`
           );
         }
       }
@@ -366,28 +570,25 @@ export class SPFMXMechanism extends SPFMechanism {
       );
     } else if (context.client.ipAddress instanceof IPv6Address) {
       // Gets all the addresses to match against.
-      const addresses: IPv6Address[] = (
+      const addresses: string[] = (
         await Promise.all(
           mailExchanges.map(
-            async (mx: dns.MxRecord, index: number): Promise<IPv6Address[]> => {
-              const rawAddresses: string[] = await util.promisify(dns.resolve6)(
-                mx.exchange
-              );
-              return rawAddresses.map(
-                (address: string, index: number): IPv6Address =>
-                  IPv6Address.decode(address)
-              );
-            }
+            (mx: dns.MxRecord, index: number): Promise<string[]> =>
+              evaluation.resolve6(mx.exchange, false)
           )
         )
       ).flat();
 
       // Matches against all the addresses.
       for (const address of addresses) {
-        if (address.equals(context.client.ipAddress)) {
+        if (this.cidr.match(context.client.ipAddress, address)) {
+          const range: string = this.cidr.range(
+            context.client.ipAddress,
+            address
+          );
           return new SPFMechanismResult(
             true,
-            `Client IPv6 ${context.client.ipAddress.encode()} is mentioned as mail exchange.`
+            `Client IPv6 ${context.client.ipAddress.encode()} is in the range ${range} of a mail exchange.`
           );
         }
       }
@@ -408,10 +609,12 @@ export class SPFMXMechanism extends SPFMechanism {
    */
   public toString(): string {
     if (this.domain !== null) {
-      return `${SPFDirectiveMechanismKeywords.MX}:${this.domain}`;
+      return `${SPFDirectiveMechanismKeywords.MX}:${
+        this.domain
+      }${this.cidr.toString()}`;
     }
 
-    return SPFDirectiveMechanismKeywords.MX;
+    return `${SPFDirectiveMechanismKeywords.MX}${this.cidr.toString()}`;
   }
 }
 
@@ -420,7 +623,11 @@ export class SPFMXMechanism extends SPFMechanism {
 /////////////////////////////////////////////////
 
 export class SPFPTRMechanism extends SPFMechanism {
-  public constructor(public readonly domain: string) {
+  /**
+   * Constructs a new SPF PTR mechanism.
+   * @param domain the possible domain, if not there the current domain is used.
+   */
+  public constructor(public readonly domain: string | null = null) {
     super();
   }
 
@@ -429,9 +636,9 @@ export class SPFPTRMechanism extends SPFMechanism {
    * @param value the value of the key/value pair.
    * @returns the parsed mechanism.
    */
-  public static parse(value: string | null): SPFAllMechanism {
-    if (value === null) {
-      throw new SPFSyntacticalError("PTR Records needs value.");
+  public static parse(value: string | null): SPFPTRMechanism {
+    if (value !== null && value.length === 0) {
+      throw new SPFSyntacticalError("Mechanism has empty domain argument!");
     }
 
     return new this(value);
@@ -440,26 +647,48 @@ export class SPFPTRMechanism extends SPFMechanism {
   /**
    * Performs the validation of the current mechanism, using the supplied context.
    * @param context the context of the validation.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param domain the current domain, whose record is being evaluated.
    * @returns the result of the validation.
    */
-  public async match(context: ISPFContext): Promise<SPFMechanismResult> {
-    // Performs the reverse lookup of all the hostnames.
-    const hostnames: string[] = await util.promisify(dns.reverse)(
-      context.client.ipAddress.encode()
+  public async match(
+    context: ISPFCheckedContext,
+    evaluation: SPFEvaluation,
+    domain: string
+  ): Promise<SPFMechanismResult> {
+    // Counts the reverse lookup.
+    evaluation.countLookup(this.toString());
+
+    // Gets the target domain, the current domain if not specified.
+    const target: string =
+      this.domain !== null
+        ? await evaluation.expand(this.domain, domain)
+        : domain;
+
+    // Gets the forward-confirmed names of the client [RFC7208 5.5].
+    const hostnames: string[] = await evaluation.validatedNames(
+      context.client.ipAddress
     );
 
-    // Checks if any of them matches.
+    // Checks if any of them is the target domain, or a subdomain of it.
     for (const hostname of hostnames) {
-      if (hostname.endsWith(this.domain)) {
+      if (spf_domain_within(hostname, target)) {
         return new SPFMechanismResult(
           true,
-          `Reverse lookup of ${context.client.ipAddress.encode()} resulted in matching hostname: ${hostname}`
+          `Validated name ${hostname} of ${context.client.ipAddress.encode()} is within ${target}`
         );
       }
     }
 
     // We did not match.
-    return new SPFMechanismResult(false);
+    return new SPFMechanismResult(
+      false,
+      hostnames.length > 0
+        ? `None of the validated names of ${context.client.ipAddress.encode()} (${hostnames.join(
+            ", "
+          )}) is within ${target}`
+        : `${context.client.ipAddress.encode()} has no validated names`
+    );
   }
 
   /**
@@ -468,7 +697,7 @@ export class SPFPTRMechanism extends SPFMechanism {
    */
   public toString(): string {
     if (this.domain !== null) {
-      return `${SPFDirectiveMechanismKeywords.MX}:${this.domain}`;
+      return `${SPFDirectiveMechanismKeywords.PTR}:${this.domain}`;
     }
 
     return SPFDirectiveMechanismKeywords.PTR;
@@ -511,14 +740,23 @@ export class SPFIPv4Mechanism extends SPFMechanism {
   /**
    * Performs the validation of the current mechanism, using the supplied context.
    * @param context the context of the validation.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param domain the current domain, whose record is being evaluated.
    * @returns the result of the validation.
    */
-  public async match(context: ISPFContext): Promise<SPFMechanismResult> {
+  public async match(
+    context: ISPFCheckedContext,
+    evaluation: SPFEvaluation,
+    domain: string
+  ): Promise<SPFMechanismResult> {
     if (context.client.ipAddress instanceof IPv6Address) {
       return new SPFMechanismResult(false);
     }
 
-    if (this.address.cidr && context.client.ipAddress.cidr_match(this.address)) {
+    if (
+      this.address.cidr &&
+      context.client.ipAddress.cidr_match(this.address)
+    ) {
       return new SPFMechanismResult(
         true,
         `${context.client.ipAddress.encode()} is in CIDR range of ${this.address.encode()}`
@@ -581,14 +819,23 @@ export class SPFIPv6Mechanism extends SPFMechanism {
   /**
    * Performs the validation of the current mechanism, using the supplied context.
    * @param context the context of the validation.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param domain the current domain, whose record is being evaluated.
    * @returns the result of the validation.
    */
-  public async match(context: ISPFContext): Promise<SPFMechanismResult> {
+  public async match(
+    context: ISPFCheckedContext,
+    evaluation: SPFEvaluation,
+    domain: string
+  ): Promise<SPFMechanismResult> {
     if (context.client.ipAddress instanceof IPv4Address) {
       return new SPFMechanismResult(false);
     }
 
-    if (this.address.cidr && context.client.ipAddress.cidr_match(this.address)) {
+    if (
+      this.address.cidr &&
+      context.client.ipAddress.cidr_match(this.address)
+    ) {
       return new SPFMechanismResult(
         true,
         `${context.client.ipAddress.encode()} is in CIDR range of ${this.address.encode()}`
@@ -634,7 +881,7 @@ export class SPFExistsMechanism extends SPFMechanism {
    * @returns the parsed mechanism.
    */
   public static parse(value: string | null): SPFAllMechanism {
-    if (value === null) {
+    if (value === null || value.length === 0) {
       throw new SPFSyntacticalError(
         '"exists" mechanism must have one domain argument!'
       );
@@ -646,45 +893,34 @@ export class SPFExistsMechanism extends SPFMechanism {
   /**
    * Performs the validation of the current mechanism, using the supplied context.
    * @param context the context of the validation.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param domain the current domain, whose record is being evaluated.
    * @returns the result of the validation.
    */
-  public async match(context: ISPFContext): Promise<SPFMechanismResult> {
-    // Creates the promises for both types of RR's.
-    const iPv4Promise: Promise<string[]> = util.promisify(dns.resolve4)(
-      this.hostname
-    );
-    const iPv6Promise: Promise<string[]> = util.promisify(dns.resolve6)(
-      this.hostname
-    );
-
-    // Awaits both of the promises.
-    const [iPv4Addresses, iPv6Addresses] = await Promise.all([
-      iPv4Promise,
-      iPv6Promise,
-    ]);
-
-    // Checks if any of the two have records.
-    if (iPv4Addresses.length > 0 && iPv6Addresses.length > 0) {
-      return new SPFMechanismResult(
-        true,
-        `IPv4 and IPv6 RR's found for hostname: ${this.hostname}`
-      );
-    } else if (iPv4Addresses.length > 0) {
-      return new SPFMechanismResult(
-        true,
-        `IPv4 RR's found for hostname: ${this.hostname}`
-      );
-    } else if (iPv6Addresses.length > 0) {
+  public async match(
+    context: ISPFCheckedContext,
+    evaluation: SPFEvaluation,
+    domain: string
+  ): Promise<SPFMechanismResult> {
+    // Counts the lookup of the RR's.
+    evaluation.countLookup(this.toString());
+
+    // [RFC7208] Resolves the A records only, even when the client uses IPv6.
+    const hostname: string = await evaluation.expand(this.hostname, domain);
+    const addresses: string[] = await evaluation.resolve4(hostname);
+
+    // Checks if there are any records.
+    if (addresses.length > 0) {
       return new SPFMechanismResult(
         true,
-        `IPv6 RR's found for hostname: ${this.hostname}`
-      );
-    } else {
-      return new SPFMechanismResult(
-        false,
-        `No RR's found for hostname: ${this.hostname}`
+        `A RR's found for hostname: ${hostname}`
       );
     }
+
+    return new SPFMechanismResult(
+      false,
+      `No A RR's found for hostname: ${hostname}`
+    );
   }
 
   /**
@@ -756,6 +992,13 @@ export class SPFDirective {
    * @returns The parsed directive.
    */
   public static parse(key: string, value: string | null): SPFDirective {
+    // Splits a possible CIDR length off the keyword, for example 'a/24'.
+    const slashIndex: number = key.indexOf("/");
+    if (value === null && slashIndex !== -1) {
+      value = key.slice(slashIndex);
+      key = key.slice(0, slashIndex);
+    }
+
     // Gets the mechanism and the qualifier (Defaults to Pass).
     let qualifier: SPFDirectiveQualifier = SPFDirectiveQualifier.Pass;
     if (/^[\+\-\~\?].*/.test(key)) {
@@ -769,4 +1012,14 @@ export class SPFDirective {
     // Returns the directive.
     return new SPFDirective(qualifier, mechanism);
   }
+
+  /**
+   * Gets the string version of the directive, including the qualifier.
+   * @returns the string version.
+   */
+  public toString(): string {
+    return `${spf_directive_qualifier_encode(
+      this.qualifier
+    )}${this.mechanism.toString()}`;
+  }
 }
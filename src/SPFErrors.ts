@@ -1,3 +1,29 @@
 export class SPFSyntacticalError extends Error {}
 
-export class SPFNetworkingError extends Error {}
\ No newline at end of file
+export class SPFNetworkingError extends Error {}
+
+export class SPFTimeoutError extends SPFNetworkingError {}
+
+export class SPFLimitError extends Error {}
+
+export class SPFIncludeError extends Error {}
+
+export class SPFHeaderError extends Error {}
+
+export class SPFLocalPolicyError extends Error {}
+
+export class SPFLintError extends Error {}
+
+export class SPFMultipleRecordsError extends Error {
+  /**
+   * Constructs a new multiple records error.
+   * @param records the SPF records found.
+   */
+  public constructor(public readonly records: string[]) {
+    super(
+      `Found ${records.length} SPF records, only one is allowed: ${records
+        .map((record: string): string => `"${record}"`)
+        .join(", ")}`
+    );
+  }
+}
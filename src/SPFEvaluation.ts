@@ -0,0 +1,376 @@
+import dns from "dns";
+import { IPv4Address, IPv6Address } from "llibipaddress";
+import winston from "winston";
+import { ISPFCheckedContext } from "./SPFContext";
+import {
+  SPFLimitError,
+  SPFNetworkingError,
+  SPFTimeoutError,
+} from "./SPFErrors";
+import { SPFMacroProcessor } from "./SPFMacroProcessor";
+import { ISPFResolver, spf_resolver_error_is_void } from "./SPFResolver";
+import { SPFTracer } from "./SPFTrace";
+import { SPFLRUCache } from "./SPFCache";
+import { SPFValidator } from "./SPFValidator";
+
+export const SPF_MAX_DNS_LOOKUPS: number = 10; // [RFC7208] Terms causing DNS queries.
+export const SPF_MAX_VOID_LOOKUPS: number = 2; // [RFC7208] Queries with empty answers.
+export const SPF_MAX_NAME_LOOKUPS: number = 10; // [RFC7208] MX / PTR names per lookup.
+export const SPF_DEFAULT_QUERY_TIMEOUT: number = 5000; // Milliseconds a single query may take.
+export const SPF_DEFAULT_TOTAL_TIMEOUT: number = 20000; // [RFC7208] Milliseconds a whole check may take, at least 20 seconds.
+
+export class SPFEvaluation implements ISPFResolver {
+  /**
+   * The number of terms which caused DNS lookups.
+   */
+  public lookups: number = 0;
+
+  /**
+   * The number of lookups which resulted in an empty answer.
+   */
+  public voidLookups: number = 0;
+
+  /**
+   * Constructs a new evaluation, which is shared by the whole evaluation tree
+   *  (includes and redirects) of a single check.
+   * @param context the context of the checked identity.
+   * @param validator the validator performing the check, includes recurse through it.
+   * @param queryTimeout the number of milliseconds a single query may take.
+   * @param deadline the timestamp (in milliseconds) after which no more queries may be performed.
+   * @param tracer the possible tracer, recording the evaluation.
+   * @param recordCache the possible cache of parsed records, keyed by their text.
+   */
+  public constructor(
+    public readonly context: ISPFCheckedContext,
+    public readonly validator: SPFValidator,
+    public readonly queryTimeout: number = SPF_DEFAULT_QUERY_TIMEOUT,
+    public readonly deadline: number = Date.now() + SPF_DEFAULT_TOTAL_TIMEOUT,
+    public readonly tracer: SPFTracer | null = null,
+    public readonly recordCache: SPFLRUCache | null = null
+  ) {}
+
+  /**
+   * Gets the resolver to perform the lookups with, the one of the validator.
+   * @returns the resolver.
+   */
+  public get resolver(): ISPFResolver {
+    return this.validator.resolver;
+  }
+
+  /**
+   * Gets the possible logger, the one of the validator.
+   * @returns the possible logger.
+   */
+  public get logger(): winston.Logger | undefined {
+    return this.validator.logger;
+  }
+
+  /**
+   * Counts a term which causes DNS lookups, and throws if the limit has been exceeded.
+   * @param term the term (for the error message).
+   */
+  public countLookup(term: string): void {
+    if (++this.lookups > SPF_MAX_DNS_LOOKUPS) {
+      throw new SPFLimitError(
+        `More than ${SPF_MAX_DNS_LOOKUPS} DNS lookups, exceeded at: ${term}`
+      );
+    }
+
+    this.logger?.debug(`Lookup ${this.lookups} caused by: ${term}`);
+  }
+
+  /**
+   * Counts a lookup which resulted in an empty answer, and throws if the limit has been exceeded.
+   * @param hostname the hostname (for the error message).
+   */
+  public countVoidLookup(hostname: string): void {
+    if (++this.voidLookups > SPF_MAX_VOID_LOOKUPS) {
+      throw new SPFLimitError(
+        `More than ${SPF_MAX_VOID_LOOKUPS} void DNS lookups, exceeded at: ${hostname}`
+      );
+    }
+
+    this.logger?.debug(`Void lookup ${this.voidLookups} for: ${hostname}`);
+  }
+
+  /**
+   * Gets the validated names of the given address, the names of its PTR records
+   *  which resolve back to the address [RFC7208 5.5], the caller counts the lookup.
+   * @param address the address.
+   * @returns the validated names, empty if there are none.
+   * @throws SPFNetworkingError if one of the lookups failed, or timed out.
+   */
+  public async validatedNames(
+    address: IPv4Address | IPv6Address
+  ): Promise<string[]> {
+    // Performs the reverse lookup, ignoring all but the first names.
+    const names: string[] = (await this.reverse(address.encode())).slice(
+      0,
+      SPF_MAX_NAME_LOOKUPS
+    );
+
+    // Resolves the addresses of all the names, and keeps the ones containing the
+    //  address, names which do not exist are skipped.
+    const confirmed: boolean[] = await Promise.all(
+      names.map(async (name: string): Promise<boolean> => {
+        if (address instanceof IPv4Address) {
+          return (
+            await this._query("A", name, this.resolver.resolve4(name), false)
+          ).some((other: string): boolean =>
+            address.equals(IPv4Address.decode(other))
+          );
+        }
+
+        return (
+          await this._query("AAAA", name, this.resolver.resolve6(name), false)
+        ).some((other: string): boolean =>
+          address.equals(IPv6Address.decode(other))
+        );
+      })
+    );
+
+    return names.filter(
+      (name: string, index: number): boolean => confirmed[index]
+    );
+  }
+
+  /**
+   * Expands the macro's in the given macro-string, performing (and counting) the
+   *  lookup of the validated names if the p macro is used.
+   * @param spec the macro-string.
+   * @param domain the current domain, whose record is being evaluated.
+   * @param exp if the macro-string is an explanation string.
+   * @returns the expanded string.
+   */
+  public async expand(
+    spec: string,
+    domain: string,
+    exp: boolean = false
+  ): Promise<string> {
+    let validatedNames: string[] | undefined = undefined;
+    if (SPFMacroProcessor.letters(spec, exp).includes("p")) {
+      this.countLookup(spec);
+      validatedNames = await this.validatedNames(this.context.client.ipAddress);
+    }
+
+    const expanded: string = SPFMacroProcessor.expand(spec, this.context, {
+      domain,
+      exp,
+      validatedNames,
+    });
+
+    if (!exp) {
+      this.tracer?.expanded(expanded);
+    }
+
+    return expanded;
+  }
+
+  /**
+   * Resolves the TXT records of the given hostname.
+   * @param hostname the hostname.
+   * @param countVoid if an empty answer counts as void lookup.
+   * @returns the TXT records, each as an array of character-strings.
+   */
+  public resolveTxt(
+    hostname: string,
+    countVoid: boolean = true
+  ): Promise<string[][]> {
+    return this._query(
+      "TXT",
+      hostname,
+      this.resolver.resolveTxt(hostname),
+      countVoid
+    );
+  }
+
+  /**
+   * Resolves the A records of the given hostname.
+   * @param hostname the hostname.
+   * @param countVoid if an empty answer counts as void lookup.
+   * @returns the IPv4 addresses.
+   */
+  public resolve4(
+    hostname: string,
+    countVoid: boolean = true
+  ): Promise<string[]> {
+    return this._query(
+      "A",
+      hostname,
+      this.resolver.resolve4(hostname),
+      countVoid
+    );
+  }
+
+  /**
+   * Resolves the AAAA records of the given hostname.
+   * @param hostname the hostname.
+   * @param countVoid if an empty answer counts as void lookup.
+   * @returns the IPv6 addresses.
+   */
+  public resolve6(
+    hostname: string,
+    countVoid: boolean = true
+  ): Promise<string[]> {
+    return this._query(
+      "AAAA",
+      hostname,
+      this.resolver.resolve6(hostname),
+      countVoid
+    );
+  }
+
+  /**
+   * Resolves the MX records of the given hostname.
+   * @param hostname the hostname.
+   * @param countVoid if an empty answer counts as void lookup.
+   * @returns the mail exchanges.
+   */
+  public resolveMx(
+    hostname: string,
+    countVoid: boolean = true
+  ): Promise<dns.MxRecord[]> {
+    return this._query(
+      "MX",
+      hostname,
+      this.resolver.resolveMx(hostname),
+      countVoid
+    );
+  }
+
+  /**
+   * Performs a reverse (PTR) lookup of the given address, an empty answer is not
+   *  counted as void lookup.
+   * @param address the encoded IPv4 or IPv6 address.
+   * @returns the hostnames.
+   */
+  public reverse(address: string): Promise<string[]> {
+    return this._query("PTR", address, this.resolver.reverse(address), false);
+  }
+
+  /**
+   * Awaits the given query, and possibly counts it as void lookup if the answer is empty.
+   * @param type the queried record type (for the error message).
+   * @param hostname the queried hostname.
+   * @param query the query.
+   * @param countVoid if an empty answer counts as void lookup.
+   * @returns the answer, empty if the name does not exist or has no records of the type.
+   * @throws SPFNetworkingError if the lookup failed, or timed out.
+   * @protected
+   */
+  protected async _query<T>(
+    type: string,
+    hostname: string,
+    query: Promise<T[]>,
+    countVoid: boolean
+  ): Promise<T[]> {
+    let answer: T[];
+    try {
+      answer = await this._timed(type, hostname, query);
+    } catch (e) {
+      if (e instanceof SPFTimeoutError) {
+        throw e;
+      } else if (!spf_resolver_error_is_void(e)) {
+        throw new SPFNetworkingError(
+          `${type} lookup of ${hostname} failed: ${
+            (e as NodeJS.ErrnoException).code ?? e
+          }`
+        );
+      }
+
+      // [RFC7208] NXDOMAIN and no data are both empty answers.
+      answer = [];
+    }
+
+    // [RFC7208 4.6.4] Only the query of the term itself counts, not the follow-up ones.
+    if (answer.length === 0 && countVoid) {
+      this.countVoidLookup(hostname);
+    }
+
+    return answer;
+  }
+
+  /**
+   * Awaits the given query, and throws if it takes longer than the query timeout,
+   *  or if it does not finish before the deadline. The query is traced, if tracing.
+   * @param type the queried record type.
+   * @param hostname the queried hostname.
+   * @param query the query.
+   * @returns the result of the query.
+   * @protected
+   */
+  protected async _timed<T>(
+    type: string,
+    hostname: string,
+    query: Promise<T[]>
+  ): Promise<T[]> {
+    const start: number = Date.now();
+    try {
+      const answer: T[] = await this._race(
+        `${type} lookup of ${hostname}`,
+        query
+      );
+      this.tracer?.query({
+        type,
+        name: hostname,
+        answer,
+        error: null,
+        start,
+        duration: Date.now() - start,
+      });
+      return answer;
+    } catch (e) {
+      this.tracer?.query({
+        type,
+        name: hostname,
+        answer: null,
+        error: (e as NodeJS.ErrnoException).code ?? (e as Error).message,
+        start,
+        duration: Date.now() - start,
+      });
+      throw e;
+    }
+  }
+
+  /**
+   * Races the given query against the query timeout, and the deadline.
+   * @param description the description of the query (for the error message).
+   * @param query the query.
+   * @returns the result of the query.
+   * @protected
+   */
+  protected async _race<T>(description: string, query: Promise<T>): Promise<T> {
+    // Makes sure we still have time left, the query is ignored if not.
+    const left: number = this.deadline - Date.now();
+    if (left <= 0) {
+      query.catch((): void => undefined);
+      throw new SPFTimeoutError(
+        `${description} not performed, the evaluation deadline has passed`
+      );
+    }
+
+    // Races the query against the timeout, or the deadline if that is sooner.
+    const delay: number = Math.min(this.queryTimeout, left);
+    let timer: NodeJS.Timeout | undefined = undefined;
+    try {
+      return await Promise.race([
+        query,
+        new Promise<never>((_, reject): void => {
+          timer = setTimeout(
+            (): void =>
+              reject(
+                new SPFTimeoutError(
+                  delay < this.queryTimeout
+                    ? `${description} did not finish before the evaluation deadline`
+                    : `${description} timed out after ${delay} ms`
+                )
+              ),
+            delay
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
@@ -1,8 +1,5 @@
-import dns from "dns";
-import util from "util";
-import { ISPFContext } from "./SPFContext";
 import { SPFNetworkingError } from "./SPFErrors";
-import { SPFMacroProcessor } from "./SPFMacroProcessor";
+import { SPFEvaluation } from "./SPFEvaluation";
 
 export class SPFExplainRecord {
   /**
@@ -14,22 +11,22 @@ export class SPFExplainRecord {
   /**
    * Resolves an SPF explain record.
    * @param hostname the hostname.
-   * @param context the context.
+   * @param evaluation the evaluation, to perform the TXT lookup and expand the macro's with.
+   * @param domain the current domain, whose record contains the exp modifier.
    * @returns the explain record,
    */
   public static async resolve(
     hostname: string,
-    context: ISPFContext
+    evaluation: SPFEvaluation,
+    domain: string
   ): Promise<SPFExplainRecord> {
-    // Gets all the found txt records.
-    const txtRecords: string[][] = await util.promisify(dns.resolveTxt)(
-      hostname
-    );
+    // Gets all the found txt records, the exp lookup is not counted [RFC7208 6.2].
+    const txtRecords: string[][] = await evaluation.resolveTxt(hostname, false);
 
-    // Checks if there are any records, at all.. If not, throw error.
-    if (txtRecords.length === 0) {
+    // [RFC7208] There must be exactly one record, if not throw error.
+    if (txtRecords.length !== 1) {
       throw new SPFNetworkingError(
-        `Could not find any TXT records for hostname: ${hostname}`
+        `Expected one TXT record for hostname: ${hostname}, found ${txtRecords.length}`
       );
     }
 
@@ -38,9 +35,11 @@ export class SPFExplainRecord {
     const txtRecordContents: string = txtRecord.join(""); // [RFC7208] The fetched TXT record's strings are concatenated with no spaces.
 
     // Processes the macros inside the record.
-    const processedTxtRecordContents: string = new SPFMacroProcessor(
-      context
-    ).process(txtRecordContents, true);
+    const processedTxtRecordContents: string = await evaluation.expand(
+      txtRecordContents,
+      domain,
+      true
+    );
 
     // Returns the record.
     return new SPFExplainRecord(processedTxtRecordContents);
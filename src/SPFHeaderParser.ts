@@ -0,0 +1,351 @@
+import { SPFCheckedIdentity } from "./SPFCheckedIdentity";
+import { SPFHeaderError } from "./SPFErrors";
+import { SPFResultType } from "./SPFResult";
+
+export class SPFParsedResult {
+  /**
+   * Constructs a new result, parsed from a header.
+   * @param type the type of the result.
+   * @param comment the possible comment of the result.
+   * @param pairs the key/ value pairs (Received-SPF) or properties (Authentication-Results), keys in lowercase.
+   * @param authservId the authentication service, only for Authentication-Results.
+   */
+  public constructor(
+    public readonly type: SPFResultType,
+    public readonly comment: string | null,
+    public readonly pairs: { [key: string]: string },
+    public readonly authservId: string | null = null
+  ) {}
+
+  /**
+   * Gets the checked identity, if stated.
+   */
+  public get identity(): SPFCheckedIdentity | null {
+    const identity: string | undefined = this.pairs["identity"]?.toLowerCase();
+    return (Object.values(SPFCheckedIdentity) as string[]).includes(
+      identity ?? ""
+    )
+      ? (identity as SPFCheckedIdentity)
+      : null;
+  }
+
+  /**
+   * Gets the address of the checked client, if stated.
+   */
+  public get clientIp(): string | null {
+    return this.pairs["client-ip"] ?? null;
+  }
+
+  /**
+   * Gets the checked envelope sender, if stated.
+   */
+  public get envelopeFrom(): string | null {
+    return this.pairs["envelope-from"] ?? this.pairs["smtp.mailfrom"] ?? null;
+  }
+
+  /**
+   * Gets the HELO domain of the client, if stated.
+   */
+  public get helo(): string | null {
+    return this.pairs["helo"] ?? this.pairs["smtp.helo"] ?? null;
+  }
+
+  /**
+   * Gets the host which performed the check, if stated.
+   */
+  public get receiver(): string | null {
+    return this.pairs["receiver"] ?? this.authservId;
+  }
+
+  /**
+   * Gets the matched mechanism, if stated.
+   */
+  public get mechanism(): string | null {
+    return this.pairs["mechanism"] ?? null;
+  }
+
+  /**
+   * Gets the problem of an error result, if stated.
+   */
+  public get problem(): string | null {
+    return this.pairs["problem"] ?? this.pairs["reason"] ?? null;
+  }
+}
+
+export class SPFHeaderParser {
+  /**
+   * The offset of the next character to parse.
+   */
+  protected _offset: number = 0;
+
+  /**
+   * Constructs a new header parser.
+   * @param value the unfolded header value.
+   */
+  protected constructor(public readonly value: string) {}
+
+  /**
+   * Parses the value of a Received-SPF header [RFC7208 9.1].
+   * @param value the (possibly folded) header value.
+   * @returns the parsed result.
+   * @throws SPFHeaderError if the header is invalid.
+   */
+  public static parseReceivedSPF(value: string): SPFParsedResult {
+    const parser: SPFHeaderParser = new SPFHeaderParser(
+      SPFHeaderParser._unfold(value)
+    );
+
+    // Parses the result, and the comment following it.
+    parser._cfws();
+    const type: SPFResultType = SPFHeaderParser._result(parser._token());
+    const comment: string | null = parser._cfws()[0] ?? null;
+
+    // Parses the key/ value pairs, separated by semicolons.
+    const pairs: { [key: string]: string } = {};
+    while (!parser._end()) {
+      const key: string = parser._token(/[\s;()"=]/);
+      parser._cfws();
+      parser._expect("=");
+      parser._cfws();
+      pairs[key.toLowerCase()] = parser._value();
+      parser._cfws();
+
+      if (!parser._end()) {
+        parser._expect(";");
+        parser._cfws();
+      }
+    }
+
+    return new SPFParsedResult(type, comment, pairs);
+  }
+
+  /**
+   * Parses the SPF results of an Authentication-Results header [RFC8601 2.2],
+   *  the results of other methods are skipped.
+   * @param value the (possibly folded) header value.
+   * @returns the parsed SPF results, e.g. one for HELO and one for MAIL FROM.
+   * @throws SPFHeaderError if the header is invalid.
+   */
+  public static parseAuthenticationResults(value: string): SPFParsedResult[] {
+    const parser: SPFHeaderParser = new SPFHeaderParser(
+      SPFHeaderParser._unfold(value)
+    );
+    const results: SPFParsedResult[] = [];
+
+    // Parses the authentication service, and its possible version.
+    parser._cfws();
+    const authservId: string = parser._value();
+    parser._cfws();
+    if (/^\d/.test(parser._peek())) {
+      parser._token();
+      parser._cfws();
+    }
+
+    // Parses all the results, each starting with a semicolon.
+    while (!parser._end()) {
+      parser._expect(";");
+      parser._cfws();
+
+      // Parses the method, with its possible version, and the result.
+      const method: string = parser._token(/[\s;()"=/]/).toLowerCase();
+      parser._cfws();
+      if (method === "none" && parser._end()) {
+        break;
+      } else if (parser._peek() === "/") {
+        parser._expect("/");
+        parser._cfws();
+        parser._token(/[\s;()"=]/);
+        parser._cfws();
+      }
+      parser._expect("=");
+      parser._cfws();
+      const result: string = parser._token();
+      const comment: string | null = parser._cfws()[0] ?? null;
+
+      // Parses the reason and the properties.
+      const pairs: { [key: string]: string } = {};
+      while (!parser._end() && parser._peek() !== ";") {
+        const key: string = parser._token(/[\s;()"=]/);
+        parser._cfws();
+        parser._expect("=");
+        parser._cfws();
+        pairs[key.toLowerCase()] = parser._value();
+        parser._cfws();
+      }
+
+      if (method === "spf") {
+        results.push(
+          new SPFParsedResult(
+            SPFHeaderParser._result(result),
+            comment,
+            pairs,
+            authservId
+          )
+        );
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Unfolds the given header value [RFC5322 2.2.3].
+   * @param value the folded value.
+   * @returns the unfolded value.
+   * @protected
+   */
+  protected static _unfold(value: string): string {
+    return value.replace(/\r?\n(?=[ \t])/g, "");
+  }
+
+  /**
+   * Gets the result type of the given raw result.
+   * @param raw the raw result.
+   * @returns the result type.
+   * @throws SPFHeaderError if it is not an SPF result.
+   * @protected
+   */
+  protected static _result(raw: string): SPFResultType {
+    const type: string = raw.toLowerCase();
+    if (!(Object.values(SPFResultType) as string[]).includes(type)) {
+      throw new SPFHeaderError(`Invalid SPF result: ${raw}`);
+    }
+
+    return type as SPFResultType;
+  }
+
+  /**
+   * Checks if all the characters have been parsed.
+   * @returns if at the end.
+   * @protected
+   */
+  protected _end(): boolean {
+    return this._offset >= this.value.length;
+  }
+
+  /**
+   * Gets the next character, without consuming it.
+   * @returns the next character, empty at the end.
+   * @protected
+   */
+  protected _peek(): string {
+    return this.value.charAt(this._offset);
+  }
+
+  /**
+   * Consumes the given character.
+   * @param char the expected character.
+   * @throws SPFHeaderError if the next character is another one.
+   * @protected
+   */
+  protected _expect(char: string): void {
+    if (this._peek() !== char) {
+      throw new SPFHeaderError(
+        `Expected '${char}' at ${this._offset}, got '${this._peek()}'`
+      );
+    }
+
+    ++this._offset;
+  }
+
+  /**
+   * Consumes the whitespace and comments.
+   * @returns the text of the consumed comments, unescaped.
+   * @protected
+   */
+  protected _cfws(): string[] {
+    const comments: string[] = [];
+
+    for (;;) {
+      if (/\s/.test(this._peek())) {
+        ++this._offset;
+      } else if (this._peek() === "(") {
+        comments.push(this._comment());
+      } else {
+        return comments;
+      }
+    }
+  }
+
+  /**
+   * Consumes a (possibly nested) comment.
+   * @returns the text of the comment, unescaped, without the outer parentheses.
+   * @throws SPFHeaderError if the comment is not closed.
+   * @protected
+   */
+  protected _comment(): string {
+    this._expect("(");
+
+    let text: string = "";
+    for (let depth: number = 1; ; ++this._offset) {
+      const char: string = this._peek();
+      if (char === "") {
+        throw new SPFHeaderError("Unterminated comment");
+      } else if (char === "\\") {
+        text += this.value.charAt(++this._offset);
+        continue;
+      } else if (char === "(") {
+        ++depth;
+      } else if (char === ")" && --depth === 0) {
+        ++this._offset;
+        return text;
+      }
+
+      text += char;
+    }
+  }
+
+  /**
+   * Consumes a token, the characters up to one of the given delimiters.
+   * @param delimiters the characters ending the token.
+   * @returns the token.
+   * @throws SPFHeaderError if the token is empty.
+   * @protected
+   */
+  protected _token(delimiters: RegExp = /[\s;()"]/): string {
+    const start: number = this._offset;
+    while (!this._end() && !delimiters.test(this._peek())) {
+      ++this._offset;
+    }
+
+    if (this._offset === start) {
+      throw new SPFHeaderError(
+        `Expected a token at ${start}, got '${this._peek()}'`
+      );
+    }
+
+    return this.value.substring(start, this._offset);
+  }
+
+  /**
+   * Consumes a value, either a quoted-string or a token, and the possible domain
+   *  following a quoted local-part.
+   * @returns the value, unescaped.
+   * @protected
+   */
+  protected _value(): string {
+    if (this._peek() !== '"') {
+      return this._token();
+    }
+
+    this._expect('"');
+    let text: string = "";
+    for (let char: string = this._peek(); char !== '"'; char = this._peek()) {
+      if (char === "") {
+        throw new SPFHeaderError("Unterminated quoted-string");
+      } else if (char === "\\") {
+        ++this._offset;
+      }
+
+      text += this.value.charAt(this._offset++);
+    }
+    this._expect('"');
+
+    // A quoted local-part, followed by the domain.
+    if (this._peek() === "@") {
+      text += this._token();
+    }
+
+    return text;
+  }
+}
@@ -0,0 +1,14 @@
+export const SPF_LOCAL_POLICY_DEFAULT_BEST_GUESS: string =
+  "v=spf1 a/24 mx/24 ptr";
+
+export enum SPFLocalPolicyRule {
+  TrustedNetwork = "trusted-network", // The client is one of our own relays.
+  TrustedForwarder = "trusted-forwarder", // The client is a known forwarder.
+  BestGuess = "best-guess", // The domain has no record, the best guess record was evaluated.
+}
+
+export interface ISPFLocalPolicy {
+  trustedNetworks?: string[]; // Addresses or CIDR ranges of our own relays, these always pass.
+  trustedForwarders?: string[]; // Domains of trusted forwarders, matched against the validated names of the client.
+  bestGuess?: string; // The record evaluated for domains without one, e.g. SPF_LOCAL_POLICY_DEFAULT_BEST_GUESS.
+}
@@ -1,154 +1,286 @@
 import { IPv4Address } from "llibipaddress";
-import * as net from "net";
-import { ISPFContext } from "./SPFContext";
+import { ISPFCheckedContext } from "./SPFContext";
 import { SPFSyntacticalError } from "./SPFErrors";
+import { spf_domain_within, spf_ipv6_expand } from "./SPFResolver";
+
+export const SPF_MACRO_MAX_DOMAIN_LENGTH: number = 253; // [RFC7208] Expanded domains are truncated from the left.
+
+export interface ISPFMacroExpandOptions {
+  domain: string; // The current domain, whose record is being evaluated.
+  exp?: boolean; // If the expansion is of an explanation string, allows the c, r and t letters.
+  validatedNames?: string[]; // The forward-confirmed names of the client, used by the p letter.
+}
+
+interface ISPFMacro {
+  letter: string; // The lowercase macro letter.
+  escape: boolean; // If the letter was uppercase, and the result must be URL escaped.
+  digits: number | null; // The number of right-hand parts to keep.
+  reverse: boolean; // If the parts must be reversed.
+  delimiters: string; // The characters to split on.
+}
 
 export class SPFMacroProcessor {
   /**
-   * Constructs a new macro processor.
-   * @param context the context.
+   * Validates the syntax of the macro's in the given macro-string, without expanding them.
+   * @param spec the macro-string to validate.
+   * @param exp if the macro-string is an explanation string, if so allow more letters.
+   * @throws SPFSyntacticalError if a macro is invalid.
    */
-  public constructor(public readonly context: ISPFContext) {}
+  public static validate(spec: string, exp: boolean = false): void {
+    SPFMacroProcessor._parse(spec, exp);
+  }
 
   /**
-   * Executes the given macro.
-   * @param macro the macro to execute.
-   * @param exp if we're allowed to use exp letters.
+   * Gets the (lowercase) letters of the macro's used in the given macro-string.
+   * @param spec the macro-string.
+   * @param exp if the macro-string is an explanation string.
+   * @returns the used letters.
+   * @throws SPFSyntacticalError if a macro is invalid.
+   */
+  public static letters(spec: string, exp: boolean = false): string[] {
+    return SPFMacroProcessor._parse(spec, exp)
+      .filter((part: string | ISPFMacro): boolean => typeof part !== "string")
+      .map((part: string | ISPFMacro): string => (part as ISPFMacro).letter);
+  }
+
+  /**
+   * Expands the macro's in the given macro-string [RFC7208 7].
+   * @param spec the macro-string to expand.
+   * @param context the context of the checked identity.
+   * @param options the expansion options.
+   * @returns the expanded string, truncated to a valid length if it is not an explanation.
+   * @throws SPFSyntacticalError if a macro is invalid.
+   */
+  public static expand(
+    spec: string,
+    context: ISPFCheckedContext,
+    options: ISPFMacroExpandOptions
+  ): string {
+    const exp: boolean = options.exp ?? false;
+
+    // Expands all the macro's, and joins them with the literals.
+    let result: string = SPFMacroProcessor._parse(spec, exp)
+      .map((part: string | ISPFMacro): string =>
+        typeof part === "string"
+          ? part
+          : SPFMacroProcessor._execute(part, context, options)
+      )
+      .join("");
+
+    // [RFC7208] Removes labels from the left, until the domain is short enough.
+    if (!exp) {
+      while (
+        result.length > SPF_MACRO_MAX_DOMAIN_LENGTH &&
+        result.includes(".")
+      ) {
+        result = result.substring(result.indexOf(".") + 1);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Parses the given macro-string into literals and macro's.
+   * @param spec the macro-string.
+   * @param exp if the macro-string is an explanation string.
+   * @returns the literals and the macro's, in order.
    * @protected
    */
-  protected _execute(macro: string, exp: boolean): string {
-    // Matches the base pattern of the macro.
-    let match: RegExpMatchArray | null = macro.match(
-      /^%{(?<letter>[a-z])(?<transformation_digits>[0-9]+)?(?<transformation_letters>[a-z])?(?<delimiter>[.\-+,/_=])?}$/
-    );
-    if (!match) {
-      throw new SPFSyntacticalError(`'${macro}' is not a valid macro!`);
+  protected static _parse(spec: string, exp: boolean): (string | ISPFMacro)[] {
+    const parts: (string | ISPFMacro)[] = [];
+
+    const pattern: RegExp = /%{(?<body>[^}]*)}|%(?<char>.?)/g;
+    let last: number = 0;
+    for (
+      let match: RegExpExecArray | null = pattern.exec(spec);
+      match !== null;
+      match = pattern.exec(spec)
+    ) {
+      // Adds the literal before the macro.
+      parts.push(spec.substring(last, match.index));
+      last = match.index + match[0].length;
+
+      // Handles the escapes.
+      if (match.groups!.body === undefined) {
+        switch (match.groups!.char) {
+          case "%":
+            parts.push("%");
+            break;
+          case "_":
+            parts.push(" ");
+            break;
+          case "-":
+            parts.push("%20");
+            break;
+          default:
+            throw new SPFSyntacticalError(
+              `Invalid char after macro: ${match.groups!.char}`
+            );
+        }
+
+        continue;
+      }
+
+      // Matches the letter, and the transformers.
+      const body: RegExpMatchArray | null = match.groups!.body.match(
+        /^(?<letter>[slodiphcrtv])(?<digits>[0-9]*)(?<reverse>r?)(?<delimiters>[.\-+,/_=]*)$/i
+      );
+      if (!body) {
+        throw new SPFSyntacticalError(`'${match[0]}' is not a valid macro!`);
+      }
+
+      const letter: string = body.groups!.letter.toLowerCase();
+      if (!exp && ["c", "r", "t"].includes(letter)) {
+        throw new SPFSyntacticalError(
+          `'${match[0]}' may only be used inside the exp command.`
+        );
+      }
+
+      // [RFC7208] If a digit transformer is specified, it must be nonzero.
+      let digits: number | null = null;
+      if (body.groups!.digits.length > 0) {
+        digits = parseInt(body.groups!.digits);
+        if (digits === 0) {
+          throw new SPFSyntacticalError(
+            `'${match[0]}' has a digit transformer of zero.`
+          );
+        }
+      }
+
+      parts.push({
+        letter,
+        escape: body.groups!.letter !== letter,
+        digits,
+        reverse: body.groups!.reverse.length > 0,
+        delimiters: body.groups!.delimiters || ".",
+      });
     }
 
-    // Gets the matched segments.
-    const letter: string = match.groups!.letter;
-    const transformation_digits: number | undefined = match.groups!
-      .transformation_digits
-      ? parseInt(match.groups!.transformation_digits)
-      : undefined;
-    const transformation_letters: string | undefined =
-      match.groups!.transformation_letters;
-    const delimiter: string = match.groups!.delimiter ?? ".";
-
-    // Checks the letter and what to do, the constructs the base.
-    let base: string;
-    switch (letter) {
+    // Adds the literal after the last macro.
+    parts.push(spec.substring(last));
+
+    return parts.filter((part: string | ISPFMacro): boolean => part !== "");
+  }
+
+  /**
+   * Executes the given macro.
+   * @param macro the macro to execute.
+   * @param context the context of the checked identity.
+   * @param options the expansion options.
+   * @returns the expanded macro.
+   * @protected
+   */
+  protected static _execute(
+    macro: ISPFMacro,
+    context: ISPFCheckedContext,
+    options: ISPFMacroExpandOptions
+  ): string {
+    // Gets the value of the letter.
+    let value: string;
+    switch (macro.letter) {
       // Sender.
       case "s": {
-        base = `${this.context.message.emailUsername}@${this.context.message.emailDomain}`;
+        value = `${context.sender.emailUsername}@${context.sender.emailDomain}`;
         break;
       }
       // Local part of sender.
       case "l": {
-        base = this.context.message.emailUsername;
+        value = context.sender.emailUsername;
         break;
       }
       // Domain of sender.
-      case "o":
+      case "o": {
+        value = context.sender.emailDomain;
+        break;
+      }
+      // Current domain.
       case "d": {
-        base = this.context.message.emailDomain;
+        value = options.domain;
         break;
       }
-      // IP Address.
+      // IP Address, IPv6 as dot-separated nibbles.
       case "i": {
-        base = this.context.client.ipAddress.encode();
+        value =
+          context.client.ipAddress instanceof IPv4Address
+            ? context.client.ipAddress.encode()
+            : spf_ipv6_expand(context.client.ipAddress.encode())
+                .join("")
+                .split("")
+                .join(".");
         break;
       }
-      // The validated domain (deprecated).
+      // The validated domain (deprecated), preferring the current domain, then
+      //  a subdomain of it, then any other validated name.
       case "p": {
-        throw new SPFSyntacticalError("The validate domain is deprecated!");
+        const names: string[] = options.validatedNames ?? [];
+        value =
+          names.find(
+            (name: string): boolean =>
+              name.toLowerCase() === options.domain.toLowerCase()
+          ) ??
+          names.find((name: string): boolean =>
+            spf_domain_within(name, options.domain)
+          ) ??
+          names[0] ??
+          "unknown";
+        break;
       }
       // Address type.
       case "v": {
-        base =
-          this.context.client.ipAddress instanceof IPv4Address
-            ? "in-addr"
-            : "ip6";
+        value =
+          context.client.ipAddress instanceof IPv4Address ? "in-addr" : "ip6";
         break;
       }
       // 'HELO' / 'EHLO' domain.
       case "h": {
-        base = this.context.client.greetHostname;
+        value = context.client.greetHostname;
+        break;
+      }
+      // SMTP client IP, in its readable form (exp only).
+      case "c": {
+        value = context.client.ipAddress.encode();
+        break;
+      }
+      // Domain name of the host performing the check (exp only).
+      case "r": {
+        value = context.server.hostname;
         break;
       }
-      // EXP Only commands.
-      case "c":
-      case "r":
+      // Current timestamp (exp only).
       case "t": {
-        // Makes sure we're in EXP.
-        if (!exp) {
-          throw new SPFSyntacticalError(
-            "May only be used inside the exp command."
-          );
-        }
-
-        // Checks the letter (again, I know not efficient).
-        if (letter === "c") {
-          base = this.context.client.ipAddress.encode();
-        } else if (letter === "r") {
-          base = this.context.server.hostname;
-        } else {
-          // 't'
-          base = Math.floor(new Date().getTime() / 1000).toString();
-        }
-
-        // Breaks.
+        value = Math.floor(new Date().getTime() / 1000).toString();
         break;
       }
       default:
-        throw new SPFSyntacticalError("Invalid letter.");
+        throw new SPFSyntacticalError(`Invalid macro letter: ${macro.letter}`);
     }
 
-    // Splits the base on dots, so we can perform possible
-    //  transformations on it.
-    let arr: string[] = base.split(".");
+    // Splits the value on the delimiters, so we can perform the transformations on it.
+    let parts: string[] = value.split(
+      new RegExp(`[${macro.delimiters.replace(/[-\]\\^]/g, "\\$&")}]`)
+    );
 
     // Checks if we need to reverse.
-    if (transformation_letters === "r") {
-      arr = arr.reverse();
+    if (macro.reverse) {
+      parts = parts.reverse();
     }
 
-    // Checks if we're dealing with a digit transformation, which tells us how many right-hand parts to use.
-    if (transformation_digits) {
-      arr = arr.splice(arr.length - transformation_digits);
+    // Keeps the requested number of right-hand parts.
+    if (macro.digits !== null && macro.digits < parts.length) {
+      parts = parts.slice(parts.length - macro.digits);
     }
 
-    return arr.join(delimiter);
-  }
-
-  /**
-   * Processes the macro's in the given token, and returns the result.
-   * @param token the token to process.
-   * @param exp if the command is executed from the inside the exp, if so allow more letters.
-   */
-  public process(token: string, exp: boolean = false): string {
-    // Replaces the complex macro's.
-    token = token.replace(
-      /%{[a-z0-9.\-+,/_=]+}/g,
-      (substring: string): string => this._execute(substring, exp)
-    );
-
-    // Replaces the simple macro's.
-    token = token.replace(/%.?/g, (substring: string): string => {
-      switch (substring.charAt(1)) {
-        case "%":
-          return "%";
-        case "_":
-          return " ";
-        case "-":
-          return encodeURIComponent(" ");
-        default:
-          throw new SPFSyntacticalError(
-            `Invalid char after macro: ${substring.charAt(1)}`
-          );
-      }
-    });
+    // [RFC7208] The parts are always rejoined with dots.
+    const result: string = parts.join(".");
 
-    return token;
+    // Uppercase macro's are URL escaped, only leaving unreserved characters.
+    return macro.escape
+      ? encodeURIComponent(result).replace(
+          /[!'()*]/g,
+          (c: string): string =>
+            `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+        )
+      : result;
   }
 }
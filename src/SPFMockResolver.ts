@@ -0,0 +1,387 @@
+import dns from "dns";
+import { ISPFResolver, spf_address_reverse_name } from "./SPFResolver";
+
+export enum SPFMockRecordType {
+  TXT = "txt",
+  A = "a",
+  AAAA = "aaaa",
+  MX = "mx",
+  PTR = "ptr",
+}
+
+export enum SPFMockFailure {
+  NXDomain = "nxdomain", // The name does not exist (ENOTFOUND).
+  ServFail = "servfail", // The server failed to answer (ESERVFAIL).
+  Timeout = "timeout", // The query timed out (ETIMEOUT).
+}
+
+export interface ISPFMockZoneEntry {
+  txt?: (string | string[])[]; // Either a full record, or its character-strings.
+  a?: string[];
+  aaaa?: string[];
+  mx?: dns.MxRecord[];
+  ptr?: string[]; // Only used on in-addr.arpa / ip6.arpa names.
+  failure?: SPFMockFailure; // Simulated failure for every query on the name.
+}
+
+export interface ISPFMockZone {
+  [hostname: string]: ISPFMockZoneEntry;
+}
+
+export class SPFMockResolver implements ISPFResolver {
+  /**
+   * The (normalized) zone the resolver answers from.
+   */
+  protected readonly _zone: ISPFMockZone = {};
+
+  /**
+   * The simulated failures, keyed by the normalized hostname, and the
+   *  record type (or '*' for all types).
+   */
+  protected readonly _failures: { [key: string]: SPFMockFailure } = {};
+
+  /**
+   * All the queries performed on the resolver, in order.
+   */
+  public readonly queries: [SPFMockRecordType, string][] = [];
+
+  /**
+   * Constructs a new mock resolver.
+   * @param zone the zone to answer from.
+   * @param timeoutDelay the number of milliseconds before a simulated timeout rejects.
+   */
+  public constructor(
+    zone: ISPFMockZone = {},
+    public readonly timeoutDelay: number = 0
+  ) {
+    Object.entries(zone).forEach(
+      ([hostname, entry]: [string, ISPFMockZoneEntry]): void => {
+        this._zone[SPFMockResolver._normalize(hostname)] = entry;
+
+        if (entry.failure !== undefined) {
+          this.fail(hostname, entry.failure);
+        }
+      }
+    );
+  }
+
+  /**
+   * Constructs a mock resolver from a JSON zone description.
+   * @param json the JSON string, or the already parsed zone.
+   * @param timeoutDelay the number of milliseconds before a simulated timeout rejects.
+   * @returns the mock resolver.
+   */
+  public static fromJSON(
+    json: string | ISPFMockZone,
+    timeoutDelay: number = 0
+  ): SPFMockResolver {
+    return new SPFMockResolver(
+      typeof json === "string" ? (JSON.parse(json) as ISPFMockZone) : json,
+      timeoutDelay
+    );
+  }
+
+  /**
+   * Constructs a mock resolver from BIND-style zone text, supports the $ORIGIN
+   *  and $TTL directives, '@', relative names, comments and parentheses.
+   * @param text the zone text.
+   * @param origin the initial origin.
+   * @param timeoutDelay the number of milliseconds before a simulated timeout rejects.
+   * @returns the mock resolver.
+   */
+  public static fromZoneText(
+    text: string,
+    origin: string = ".",
+    timeoutDelay: number = 0
+  ): SPFMockResolver {
+    const zone: ISPFMockZone = {};
+    let owner: string | null = null;
+
+    // Makes a name absolute, relative to the current origin.
+    const absolute = (name: string): string => {
+      if (name === "@") {
+        return origin;
+      } else if (name.endsWith(".")) {
+        return name;
+      }
+
+      return origin === "." ? `${name}.` : `${name}.${origin}`;
+    };
+
+    // Removes the comments, and joins the parenthesized lines.
+    const lines: string[] = [];
+    let pending: string | null = null;
+    for (const rawLine of text.split(/\r?\n/)) {
+      const line: string = SPFMockResolver._stripComment(rawLine);
+      const joined: string = pending !== null ? `${pending} ${line}` : line;
+
+      // Counts the parentheses outside of quoted strings.
+      const unquoted: string = joined.replace(/"(?:[^"\\]|\\.)*"/g, "");
+      const open: number = (unquoted.match(/\(/g) ?? []).length;
+      const close: number = (unquoted.match(/\)/g) ?? []).length;
+      if (open > close) {
+        pending = joined;
+        continue;
+      }
+
+      pending = null;
+      lines.push(joined);
+    }
+
+    // Parses all the lines.
+    for (const line of lines) {
+      if (line.trim().length === 0) {
+        continue;
+      }
+
+      // Handles the directives.
+      const directive: RegExpMatchArray | null = line.match(
+        /^\$(?<name>[A-Z]+)\s+(?<value>\S+)/i
+      );
+      if (directive) {
+        if (directive.groups!.name.toUpperCase() === "ORIGIN") {
+          origin = absolute(directive.groups!.value);
+        }
+
+        continue;
+      }
+
+      // Tokenizes the line, keeping quoted strings intact.
+      const tokens: string[] =
+        line.replace(/[()]/g, " ").match(/"(?:[^"\\]|\\.)*"|\S+/g) ?? [];
+
+      // A line starting with whitespace continues the previous owner.
+      if (!/^\s/.test(line)) {
+        owner = absolute(tokens.shift()!);
+      } else if (owner === null) {
+        throw new Error(`Zone line without owner: ${line.trim()}`);
+      }
+
+      // Skips the optional TTL and class.
+      while (
+        tokens.length > 0 &&
+        (/^\d+$/.test(tokens[0]) || /^(IN|CH|HS)$/i.test(tokens[0]))
+      ) {
+        tokens.shift();
+      }
+
+      // Gets the type and the data.
+      const type: string = (tokens.shift() ?? "").toUpperCase();
+      const entry: ISPFMockZoneEntry = (zone[owner!] ??= {});
+      switch (type) {
+        case "TXT":
+        case "SPF": {
+          (entry.txt ??= []).push(
+            tokens.map((token: string): string =>
+              token.startsWith('"')
+                ? token.slice(1, -1).replace(/\\(.)/g, "$1")
+                : token
+            )
+          );
+          break;
+        }
+        case "A": {
+          (entry.a ??= []).push(tokens[0]);
+          break;
+        }
+        case "AAAA": {
+          (entry.aaaa ??= []).push(tokens[0]);
+          break;
+        }
+        case "MX": {
+          (entry.mx ??= []).push({
+            priority: parseInt(tokens[0]),
+            exchange: absolute(tokens[1]).replace(/\.$/, ""),
+          });
+          break;
+        }
+        case "PTR": {
+          (entry.ptr ??= []).push(absolute(tokens[0]));
+          break;
+        }
+        default: {
+          // Other record types are of no interest for SPF, ignore them.
+          break;
+        }
+      }
+    }
+
+    return new SPFMockResolver(zone, timeoutDelay);
+  }
+
+  /**
+   * Simulates a failure for the given name.
+   * @param hostname the hostname.
+   * @param failure the failure to simulate.
+   * @param type the record type to fail, or null for all types.
+   * @returns the resolver, for chaining.
+   */
+  public fail(
+    hostname: string,
+    failure: SPFMockFailure,
+    type: SPFMockRecordType | null = null
+  ): this {
+    this._failures[`${SPFMockResolver._normalize(hostname)}/${type ?? "*"}`] =
+      failure;
+    return this;
+  }
+
+  /**
+   * Resolves the TXT records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the TXT records, each as an array of character-strings.
+   */
+  public async resolveTxt(hostname: string): Promise<string[][]> {
+    const records: (string | string[])[] = await this._lookup(
+      SPFMockRecordType.TXT,
+      "queryTxt",
+      hostname
+    );
+    return records.map((record: string | string[]): string[] =>
+      typeof record === "string" ? [record] : record
+    );
+  }
+
+  /**
+   * Resolves the A records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the IPv4 addresses.
+   */
+  public resolve4(hostname: string): Promise<string[]> {
+    return this._lookup(SPFMockRecordType.A, "queryA", hostname);
+  }
+
+  /**
+   * Resolves the AAAA records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the IPv6 addresses.
+   */
+  public resolve6(hostname: string): Promise<string[]> {
+    return this._lookup(SPFMockRecordType.AAAA, "queryAaaa", hostname);
+  }
+
+  /**
+   * Resolves the MX records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the mail exchanges.
+   */
+  public resolveMx(hostname: string): Promise<dns.MxRecord[]> {
+    return this._lookup(SPFMockRecordType.MX, "queryMx", hostname);
+  }
+
+  /**
+   * Performs a reverse (PTR) lookup of the given address.
+   * @param address the encoded IPv4 or IPv6 address.
+   * @returns the hostnames.
+   */
+  public async reverse(address: string): Promise<string[]> {
+    const hostnames: string[] = await this._lookup(
+      SPFMockRecordType.PTR,
+      "getHostByAddr",
+      spf_address_reverse_name(address)
+    );
+    return hostnames.map((hostname: string): string =>
+      hostname.replace(/\.$/, "")
+    );
+  }
+
+  /**
+   * Looks up the records of the given type in the zone, simulating the
+   *  failures and errors the same way Node's dns module reports them.
+   * @param type the record type.
+   * @param syscall the syscall to put in the possible error.
+   * @param hostname the hostname.
+   * @returns the records.
+   * @protected
+   */
+  protected async _lookup<T>(
+    type: SPFMockRecordType,
+    syscall: string,
+    hostname: string
+  ): Promise<T[]> {
+    const name: string = SPFMockResolver._normalize(hostname);
+    this.queries.push([type, name]);
+
+    // Checks if we need to simulate a failure.
+    const failure: SPFMockFailure | undefined =
+      this._failures[`${name}/${type}`] ?? this._failures[`${name}/*`];
+    switch (failure) {
+      case SPFMockFailure.NXDomain:
+        throw SPFMockResolver._error(dns.NOTFOUND, syscall, hostname);
+      case SPFMockFailure.ServFail:
+        throw SPFMockResolver._error(dns.SERVFAIL, syscall, hostname);
+      case SPFMockFailure.Timeout:
+        await new Promise((resolve) => setTimeout(resolve, this.timeoutDelay));
+        throw SPFMockResolver._error(dns.TIMEOUT, syscall, hostname);
+      default:
+        break;
+    }
+
+    // Gets the entry, if not there the domain does not exist.
+    const entry: ISPFMockZoneEntry | undefined = this._zone[name];
+    if (entry === undefined) {
+      throw SPFMockResolver._error(dns.NOTFOUND, syscall, hostname);
+    }
+
+    // Gets the records, if there are none there is no data.
+    const records: T[] | undefined = entry[type] as T[] | undefined;
+    if (records === undefined || records.length === 0) {
+      throw SPFMockResolver._error(dns.NODATA, syscall, hostname);
+    }
+
+    return records.slice();
+  }
+
+  /**
+   * Constructs an error similar to the ones thrown by Node's dns module.
+   * @param code the error code.
+   * @param syscall the syscall.
+   * @param hostname the hostname.
+   * @returns the error.
+   * @protected
+   */
+  protected static _error(
+    code: string,
+    syscall: string,
+    hostname: string
+  ): NodeJS.ErrnoException {
+    const error: NodeJS.ErrnoException & { hostname?: string } = new Error(
+      `${syscall} ${code} ${hostname}`
+    );
+    error.code = code;
+    error.syscall = syscall;
+    error.hostname = hostname;
+    return error;
+  }
+
+  /**
+   * Normalizes the given hostname, so it can be used as zone key.
+   * @param hostname the hostname.
+   * @returns the normalized hostname.
+   * @protected
+   */
+  protected static _normalize(hostname: string): string {
+    return hostname.toLowerCase().replace(/\.$/, "");
+  }
+
+  /**
+   * Strips the comment from a zone line, ignoring semicolons in quoted strings.
+   * @param line the line.
+   * @returns the line without comment.
+   * @protected
+   */
+  protected static _stripComment(line: string): string {
+    let quoted: boolean = false;
+    for (let i: number = 0; i < line.length; ++i) {
+      if (line[i] === "\\") {
+        ++i;
+      } else if (line[i] === '"') {
+        quoted = !quoted;
+      } else if (line[i] === ";" && !quoted) {
+        return line.substring(0, i);
+      }
+    }
+
+    return line;
+  }
+}
@@ -6,20 +6,33 @@ import { SPFSyntacticalError } from "./SPFErrors";
 
 export class SPFModifier {
   /**
-   * Parses the SPF modifier by key and value.
+   * Parses the SPF modifier by key and value, unknown modifiers are kept so they can be ignored.
    * @param key the key.
    * @param value the value.
    */
   public static parse(key: string, value: string | null): SPFModifier {
-    switch (key) {
+    // [RFC7208] name = ALPHA *( ALPHA / DIGIT / "-" / "_" / "." )
+    if (!/^[a-z][a-z0-9\-_.]*$/i.test(key)) {
+      throw new SPFSyntacticalError(`Invalid SPF modifier name: "${key}"`);
+    }
+
+    switch (key.toLowerCase()) {
       case "redirect":
         return SPFRedirectModifier.parse(key, value);
       case "exp":
         return SPFExplainModifier.parse(key, value);
       default:
-        throw new SPFSyntacticalError(`Unknown SPF modifier: "${key}"`);
+        return SPFUnknownModifier.parse(key, value);
     }
   }
+
+  /**
+   * Gets the string version of the modifier.
+   * @returns the string version.
+   */
+  public toString(): string {
+    throw new Error("Not implemented!");
+  }
 }
 
 /////////////////////////////////////////////////
@@ -41,12 +54,20 @@ export class SPFRedirectModifier extends SPFModifier {
    * @param value the value.
    */
   public static parse(key: string, value: string | null): SPFModifier {
-    if (value === null) {
+    if (value === null || value.length === 0) {
       throw new SPFSyntacticalError("SPF Redirect modifier must have an domain as argument.");
     }
 
     return new this(value);
   }
+
+  /**
+   * Gets the string version of the modifier.
+   * @returns the string version.
+   */
+  public toString(): string {
+    return `redirect=${this.hostname}`;
+  }
 }
 
 /////////////////////////////////////////////////
@@ -68,10 +89,54 @@ export class SPFExplainModifier extends SPFModifier {
    * @param value the value.
    */
   public static parse(key: string, value: string | null): SPFModifier {
-    if (value === null) {
+    if (value === null || value.length === 0) {
       throw new SPFSyntacticalError("SPF Explain modifier must have an domain as argument.");
     }
 
     return new this(value);
   }
+
+  /**
+   * Gets the string version of the modifier.
+   * @returns the string version.
+   */
+  public toString(): string {
+    return `exp=${this.hostname}`;
+  }
+}
+
+/////////////////////////////////////////////////
+// Unknown Modifier Class.
+/////////////////////////////////////////////////
+
+export class SPFUnknownModifier extends SPFModifier {
+  /**
+   * Constructs a new unknown SPF modifier, which is ignored during evaluation.
+   * @param name the name of the modifier.
+   * @param value the value of the modifier.
+   */
+  public constructor(public readonly name: string, public readonly value: string) {
+    super();
+  }
+
+  /**
+   * Parses the SPF modifier by key and value.
+   * @param key the key.
+   * @param value the value.
+   */
+  public static parse(key: string, value: string | null): SPFModifier {
+    if (value === null) {
+      throw new SPFSyntacticalError(`SPF modifier "${key}" must have a value.`);
+    }
+
+    return new this(key, value);
+  }
+
+  /**
+   * Gets the string version of the modifier.
+   * @returns the string version.
+   */
+  public toString(): string {
+    return `${this.name}=${this.value}`;
+  }
 }
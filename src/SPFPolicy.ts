@@ -0,0 +1,190 @@
+import { SPFMacroProcessor } from "./SPFMacroProcessor";
+import { SPFResult, SPFResultType } from "./SPFResult";
+
+export const SPF_POLICY_DEFAULT_EXPLANATION: string =
+  "%{c} is not permitted to send mail on behalf of %{d}";
+export const SPF_POLICY_DEFAULT_LINE_LENGTH: number = 78; // Characters per reply line, including the codes.
+
+export enum SPFPolicyAction {
+  Accept = "accept", // Accept the message.
+  Tag = "tag", // Accept the message, but mark it (e.g. for the spam filter).
+  Defer = "defer", // Temporarily reject the message, with a 4xx reply.
+  Reject = "reject", // Reject the message, with a 5xx reply.
+}
+
+export const SPF_POLICY_DEFAULT_ACTIONS: {
+  [type in SPFResultType]: SPFPolicyAction;
+} = {
+  [SPFResultType.None]: SPFPolicyAction.Accept,
+  [SPFResultType.Neutral]: SPFPolicyAction.Accept,
+  [SPFResultType.Pass]: SPFPolicyAction.Accept,
+  [SPFResultType.Fail]: SPFPolicyAction.Reject,
+  [SPFResultType.SoftFail]: SPFPolicyAction.Tag,
+  [SPFResultType.TempError]: SPFPolicyAction.Defer,
+  [SPFResultType.PermError]: SPFPolicyAction.Reject,
+};
+
+export interface ISPFPolicyOptions {
+  actions?: Partial<{ [type in SPFResultType]: SPFPolicyAction }>; // Overrides the default actions.
+  explanation?: string; // The explanation (macro-string) of a rejected result, for a fail only if the domain has none.
+  maxLineLength?: number; // The maximum length of a reply line, defaults to 78.
+}
+
+export class SPFPolicyDecision {
+  /**
+   * Constructs a new policy decision.
+   * @param action the action to take.
+   * @param code the SMTP reply code, null if the message is accepted.
+   * @param enhancedCode the enhanced status code [RFC3463], null if the message is accepted.
+   * @param text the reply text, null if the message is accepted.
+   * @param maxLineLength the maximum length of a reply line.
+   */
+  public constructor(
+    public readonly action: SPFPolicyAction,
+    public readonly code: number | null,
+    public readonly enhancedCode: string | null,
+    public readonly text: string | null,
+    public readonly maxLineLength: number = SPF_POLICY_DEFAULT_LINE_LENGTH
+  ) {}
+
+  /**
+   * Builds the lines of the (possibly multi-line) reply [RFC5321 4.2.1], the text
+   *  is wrapped on its whitespace.
+   * @returns the reply lines, without CRLF, empty if the message is accepted.
+   */
+  public lines(): string[] {
+    if (this.code === null || this.text === null) {
+      return [];
+    }
+
+    // Wraps the text, so the lines including the codes fit.
+    const width: number = Math.max(
+      this.maxLineLength - `${this.code} ${this.enhancedCode ?? ""} `.length,
+      1
+    );
+    const lines: string[] = [];
+    for (const paragraph of this.text.split(/\r?\n/)) {
+      let line: string = "";
+      for (const word of paragraph
+        .replace(/[\x00-\x1f\x7f]/g, " ")
+        .split(" ")
+        .filter((word: string): boolean => word.length > 0)) {
+        if (line.length > 0 && line.length + 1 + word.length > width) {
+          lines.push(line);
+          line = "";
+        }
+
+        // Splits words which don't fit on a line on their own.
+        let rest: string = word;
+        while (rest.length > width) {
+          if (line.length > 0) {
+            lines.push(line);
+          }
+          lines.push(rest.substring(0, width));
+          rest = rest.substring(width);
+          line = "";
+        }
+
+        line = line.length > 0 ? `${line} ${rest}` : rest;
+      }
+      lines.push(line);
+    }
+
+    // All but the last line have a hyphen after the code.
+    return lines.map((line: string, index: number): string =>
+      `${this.code}${index < lines.length - 1 ? "-" : " "}${
+        this.enhancedCode !== null ? `${this.enhancedCode} ` : ""
+      }${line}`.trimEnd()
+    );
+  }
+
+  /**
+   * Builds the reply.
+   * @returns the reply, lines separated by CRLF, empty if the message is accepted.
+   */
+  public toString(): string {
+    return this.lines().join("\r\n");
+  }
+}
+
+export class SPFPolicy {
+  /**
+   * Constructs a new policy.
+   * @param options the policy options.
+   * @throws SPFSyntacticalError if the explanation is not a valid macro-string.
+   */
+  public constructor(public readonly options: ISPFPolicyOptions = {}) {
+    SPFMacroProcessor.validate(
+      options.explanation ?? SPF_POLICY_DEFAULT_EXPLANATION,
+      true
+    );
+  }
+
+  /**
+   * Gets the action of the given result type.
+   * @param type the result type.
+   * @returns the action.
+   */
+  public action(type: SPFResultType): SPFPolicyAction {
+    return this.options.actions?.[type] ?? SPF_POLICY_DEFAULT_ACTIONS[type];
+  }
+
+  /**
+   * Decides what to do with the message, given the result of the check.
+   * @param result the result.
+   * @returns the decision, with the SMTP reply if it is deferred or rejected.
+   */
+  public decide(result: SPFResult): SPFPolicyDecision {
+    const action: SPFPolicyAction = this.action(result.type);
+    const maxLineLength: number =
+      this.options.maxLineLength ?? SPF_POLICY_DEFAULT_LINE_LENGTH;
+
+    if (action === SPFPolicyAction.Accept || action === SPFPolicyAction.Tag) {
+      return new SPFPolicyDecision(action, null, null, null, maxLineLength);
+    }
+
+    // [RFC7372] X.7.24 for errors during the evaluation, 5.7.23 for the rest,
+    //  which only exists as a permanent failure, so deferring is always 4.7.24.
+    const error: boolean =
+      result.type === SPFResultType.TempError ||
+      result.type === SPFResultType.PermError;
+    const code: number = action === SPFPolicyAction.Defer ? 451 : 550;
+    const enhancedCode: string =
+      action === SPFPolicyAction.Defer ? "4.7.24" : `5.7.${error ? 24 : 23}`;
+
+    return new SPFPolicyDecision(
+      action,
+      code,
+      enhancedCode,
+      this._text(result, error),
+      maxLineLength
+    );
+  }
+
+  /**
+   * Gets the reply text of the given result.
+   * @param result the result.
+   * @param error if the result is an error.
+   * @returns the reply text.
+   * @protected
+   */
+  protected _text(result: SPFResult, error: boolean): string {
+    if (error) {
+      return result.comment !== null
+        ? `${result.describe()}: ${result.comment}`
+        : result.describe();
+    }
+
+    // [RFC7208] A fail is explained by the domain, the other results (and a fail
+    //  without explanation) by our explanation, of the checked domain.
+    if (result.type === SPFResultType.Fail && result.explaination !== null) {
+      return result.explaination;
+    }
+
+    return SPFMacroProcessor.expand(
+      this.options.explanation ?? SPF_POLICY_DEFAULT_EXPLANATION,
+      result.context,
+      { domain: result.domain ?? result.context.sender.emailDomain, exp: true }
+    );
+  }
+}
@@ -1,12 +1,18 @@
-import dns from "dns";
-import util from "util";
-import { SPFMacroProcessor } from "./SPFMacroProcessor";
 import { SPFDirective, SPFMechanism, SPFMechanismResult } from "./SPFDirectives";
 import { SPFModifier } from "./SPFModifiers";
-import { ISPFContext } from "./SPFContext";
-import { SPFNetworkingError } from "./SPFErrors";
+import {
+  SPFLimitError,
+  SPFMultipleRecordsError,
+  SPFNetworkingError,
+} from "./SPFErrors";
+import { ISPFResolver, spf_resolver_error_is_void } from "./SPFResolver";
+import { SPFRecordParser, SPFTerm } from "./SPFRecordParser";
+import { SPFLRUCache } from "./SPFCache";
 import winston from 'winston';
 
+export const SPF_RECORD_VERSION: string = "v=spf1";
+export const SPF_TXT_STRING_MAX_LENGTH: number = 255; // [RFC1035] character-string limit.
+
 export enum SPFBasicMechanism {
   All = "all",
   Include = "include",
@@ -22,9 +28,16 @@ export enum SPFDesignatedSenderMechanisms {
 }
 
 export class SPFRecord {
+  /**
+   * Constructs a new SPF record.
+   * @param directives the directives, in order of evaluation.
+   * @param modifiers the modifiers.
+   * @param terms the parsed terms with their positions, if decoded from text.
+   */
   public constructor(
     public directives: SPFDirective[],
-    public modifiers: SPFModifier[]
+    public modifiers: SPFModifier[],
+    public terms: SPFTerm[] = []
   ) {}
 
   /**
@@ -43,140 +56,130 @@ export class SPFRecord {
     return this.modifiers.at(index) as Type;
   }
 
+  /**
+   * Encodes the record into its canonical textual form, the directives in order
+   *  followed by the modifiers.
+   * @returns the encoded record, starting with the version.
+   */
+  public encode(): string {
+    return [
+      SPF_RECORD_VERSION,
+      ...this.directives.map((directive: SPFDirective): string =>
+        directive.toString()
+      ),
+      ...this.modifiers.map((modifier: SPFModifier): string =>
+        modifier.toString()
+      ),
+    ].join(" ");
+  }
+
+  /**
+   * Encodes the record, and splits it into TXT character-strings, which
+   *  will be concatenated without spaces by the receiver.
+   * @param maxLength the maximum length of a single character-string.
+   * @returns the character-strings.
+   */
+  public encodeStrings(
+    maxLength: number = SPF_TXT_STRING_MAX_LENGTH
+  ): string[] {
+    const encoded: string = this.encode();
+
+    const strings: string[] = [];
+    for (let i: number = 0; i < encoded.length; i += maxLength) {
+      strings.push(encoded.substring(i, i + maxLength));
+    }
+
+    return strings;
+  }
+
   /**
    * Resolves an SPF record for the given hostname.
    * @param hostname the hostname to resolve the SPF record for.
-   * @param context the context.
+   * @param resolver the resolver to perform the TXT lookup with.
    * @param logger the logger.
+   * @param cache the possible cache of parsed records, keyed by their text.
    * @returns the SPF record for the hostname.
    */
   public static async resolve(
     hostname: string,
-    context: ISPFContext,
-    logger: winston.Logger | undefined = undefined
+    resolver: ISPFResolver,
+    logger: winston.Logger | undefined = undefined,
+    cache: SPFLRUCache | null = null
   ): Promise<SPFRecord | null> {
     // Gets all the TXT records from the domain.
     let records: string[];
     try {
-      records = (await util.promisify(dns.resolveTxt)(hostname)).map(
-        (record: string[]): string => record.join('').trim()
+      records = (await resolver.resolveTxt(hostname)).map(
+        (record: string[]): string => record.join("")
       );
     } catch (e) {
-      throw new SPFNetworkingError();
+      if (e instanceof SPFNetworkingError || e instanceof SPFLimitError) {
+        throw e;
+      } else if (!spf_resolver_error_is_void(e)) {
+        throw new SPFNetworkingError(`TXT lookup of ${hostname} failed: ${e}`);
+      }
+
+      // The domain does not exist, or has no TXT records.
+      records = [];
     }
 
-    // Filters the txt records which start with 'v=spf1', so that we're left
-    //  with only spf records.
-    const spf_records: string[] = records.filter((record: string) =>
-      record.startsWith("v=spf1")
-    );
-    if (spf_records.length === 0) {
+    // Selects the SPF record.
+    const spf_record: string | null = SPFRecord.select(records);
+    if (spf_record === null) {
       return null;
     }
-    const spf_record: string = spf_records[0].slice(6); // Ignore others.
 
     // Prints the raw record.
     logger?.debug(`Resolved record: '${spf_record}'`);
 
-    // Returns the decoded header.
-    return SPFRecord.decode(spf_record, context);
+    // Returns the decoded header, the macro's are expanded during evaluation
+    //  so a parsed record can be reused for every domain publishing it.
+    const cached: SPFRecord | undefined = cache?.get(spf_record) as
+      | SPFRecord
+      | undefined;
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const record: SPFRecord = SPFRecord.decode(spf_record);
+    cache?.set(spf_record, record);
+    return record;
   }
 
   /**
-   * Decodes the given raw header.
-   * @param raw the raw header.
-   * @param context the SPF context.
-   * @returns the decoded header.
+   * Filters the SPF records from the given TXT records, the ones starting with
+   *  exactly the version, followed by a space or the end [RFC7208 4.5].
+   * @param records the TXT records, with their character-strings concatenated.
+   * @returns the SPF records.
    */
-  public static decode(
-    raw: string,
-    context: ISPFContext,
-  ): SPFRecord {
-    /////////////////////////////////////////////////
-    // Processes macro's in the header.
-    /////////////////////////////////////////////////
-
-    // Processes the header.
-    const processed: string = new SPFMacroProcessor(context).process(
-      raw,
-      false
-    );
-
-    /////////////////////////////////////////////////
-    // Parses the raw header into pairs and keys.
-    /////////////////////////////////////////////////
-
-    // Initializes the pairs object.
-    let directive_pairs: [string, string | null][] = [];
-    let modifier_pairs: [string, string | null][] = [];
-
-    // Parses the processed string, and gets a pairs of key/ value pairs, and the keys.
-    processed
-      .replace(/\s+/g, " ")
-      .trim()
-      .split(/\s/g)
-      .forEach((pair: string): void => {
-        const colon_sep_index: number = pair.indexOf(":");
-        const equals_sep_index: number = pair.indexOf("=");
-
-        // Gets either of the indices.
-        const sep_index: number =
-          colon_sep_index !== -1 ? colon_sep_index : equals_sep_index;
-
-        // Checks if there is a separation index, if not
-        //  we're dealing with a single key.
-        if (sep_index === -1) {
-          directive_pairs.push([pair.trim().toLowerCase(), null]);
-          return;
-        }
-
-        // Splits the key/ value pair.
-        const key: string = pair.substring(0, sep_index).trim().toLowerCase();
-        const value: string = pair
-          .substring(sep_index + 1)
-          .trim()
-          .toLowerCase();
-
-        // Checks if it's a modifier or directive.
-        if (colon_sep_index !== -1) {
-          directive_pairs.push([key, value]);
-        } else if (equals_sep_index !== -1) {
-          modifier_pairs.push([key, value]);
-        }
-      });
-
-    /////////////////////////////////////////////////
-    // Constructs the array of directives and modifiers.
-    /////////////////////////////////////////////////
-
-    // Parses all the directives.
-    const directives: SPFDirective[] = directive_pairs.map(
-      (pair: [string, string | null], index: number): SPFDirective => {
-        // Gets the key and the value.
-        const key: string = pair[0];
-        const value: string | null = pair[1];
-
-        // Parses the mechanism
-        return SPFDirective.parse(key, value);
-      }
+  public static filter(records: string[]): string[] {
+    return records.filter((record: string): boolean =>
+      /^v=spf1( |$)/i.test(record)
     );
+  }
 
-    // Parses all the modifiers.
-    const modifiers: SPFModifier[] = modifier_pairs.map(
-      (pair: [string, string | null], index: number): SPFModifier => {
-        // Gets the key and the value.
-        const key: string = pair[0];
-        const value: string | null = pair[1];
-
-        // Parses the mechanism
-        return SPFModifier.parse(key, value);
-      }
-    );
+  /**
+   * Selects the single SPF record from the given TXT records.
+   * @param records the TXT records, with their character-strings concatenated.
+   * @returns the SPF record, or null if there is none.
+   * @throws SPFMultipleRecordsError if there is more than one SPF record.
+   */
+  public static select(records: string[]): string | null {
+    const spf_records: string[] = SPFRecord.filter(records);
+    if (spf_records.length > 1) {
+      throw new SPFMultipleRecordsError(spf_records);
+    }
 
-    /////////////////////////////////////////////////
-    // Finishes and returns the result.
-    /////////////////////////////////////////////////
+    return spf_records[0] ?? null;
+  }
 
-    return new SPFRecord(directives, modifiers);
+  /**
+   * Decodes the given raw header.
+   * @param raw the raw header, with or without version.
+   * @returns the decoded header, the macro's are kept as-is and expanded during evaluation.
+   * @throws SPFParseError if a term is invalid.
+   */
+  public static decode(raw: string): SPFRecord {
+    return SPFRecordParser.parse(raw);
   }
 }
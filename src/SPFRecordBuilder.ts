@@ -0,0 +1,267 @@
+import { IPv4Address, IPv6Address } from "llibipaddress";
+import {
+  SPFAllMechanism,
+  SPFAMechanism,
+  SPFDirective,
+  SPFDirectiveQualifier,
+  SPFDualCIDRLength,
+  SPFExistsMechanism,
+  SPFIncludeMechanism,
+  SPFIPv4Mechanism,
+  SPFIPv6Mechanism,
+  SPFMechanism,
+  SPFMXMechanism,
+  SPFPTRMechanism,
+} from "./SPFDirectives";
+import { SPFSyntacticalError } from "./SPFErrors";
+import {
+  SPFExplainModifier,
+  SPFModifier,
+  SPFRedirectModifier,
+} from "./SPFModifiers";
+import { SPFRecord } from "./SPFRecord";
+import { SPFRecordParser, SPFTerm } from "./SPFRecordParser";
+
+export class SPFRecordBuilder {
+  /**
+   * The directives, in order of evaluation.
+   */
+  protected readonly _directives: SPFDirective[] = [];
+
+  /**
+   * The modifiers.
+   */
+  protected readonly _modifiers: SPFModifier[] = [];
+
+  /**
+   * Constructs a builder containing the terms of an existing record, so it can be edited.
+   * @param record the existing record.
+   * @returns the builder.
+   */
+  public static from(record: SPFRecord): SPFRecordBuilder {
+    const builder: SPFRecordBuilder = new SPFRecordBuilder();
+    builder._directives.push(...record.directives);
+    builder._modifiers.push(...record.modifiers);
+    return builder;
+  }
+
+  /**
+   * Adds a directive with the given mechanism.
+   * @param mechanism the mechanism.
+   * @param qualifier the qualifier.
+   * @returns the builder, for chaining.
+   * @throws SPFSyntacticalError if the directive is invalid.
+   */
+  public directive(
+    mechanism: SPFMechanism,
+    qualifier: SPFDirectiveQualifier = SPFDirectiveQualifier.Pass
+  ): this {
+    const directive: SPFDirective = new SPFDirective(qualifier, mechanism);
+    SPFRecordBuilder._validate(directive.toString());
+
+    this._directives.push(directive);
+    return this;
+  }
+
+  /**
+   * Adds an 'all' directive.
+   * @param qualifier the qualifier.
+   * @returns the builder, for chaining.
+   */
+  public all(qualifier: SPFDirectiveQualifier): this {
+    return this.directive(new SPFAllMechanism(), qualifier);
+  }
+
+  /**
+   * Adds an 'include' directive.
+   * @param domain the domain to include.
+   * @param qualifier the qualifier.
+   * @returns the builder, for chaining.
+   */
+  public include(
+    domain: string,
+    qualifier: SPFDirectiveQualifier = SPFDirectiveQualifier.Pass
+  ): this {
+    return this.directive(new SPFIncludeMechanism(domain), qualifier);
+  }
+
+  /**
+   * Adds an 'a' directive.
+   * @param domain the possible domain, if null the current domain is used.
+   * @param cidr the dual CIDR length.
+   * @param qualifier the qualifier.
+   * @returns the builder, for chaining.
+   */
+  public a(
+    domain: string | null = null,
+    cidr: SPFDualCIDRLength = new SPFDualCIDRLength(),
+    qualifier: SPFDirectiveQualifier = SPFDirectiveQualifier.Pass
+  ): this {
+    return this.directive(new SPFAMechanism(domain, cidr), qualifier);
+  }
+
+  /**
+   * Adds an 'mx' directive.
+   * @param domain the possible domain, if null the current domain is used.
+   * @param cidr the dual CIDR length.
+   * @param qualifier the qualifier.
+   * @returns the builder, for chaining.
+   */
+  public mx(
+    domain: string | null = null,
+    cidr: SPFDualCIDRLength = new SPFDualCIDRLength(),
+    qualifier: SPFDirectiveQualifier = SPFDirectiveQualifier.Pass
+  ): this {
+    return this.directive(new SPFMXMechanism(domain, cidr), qualifier);
+  }
+
+  /**
+   * Adds a 'ptr' directive.
+   * @param domain the possible domain, if null the current domain is used.
+   * @param qualifier the qualifier.
+   * @returns the builder, for chaining.
+   */
+  public ptr(
+    domain: string | null = null,
+    qualifier: SPFDirectiveQualifier = SPFDirectiveQualifier.Pass
+  ): this {
+    return this.directive(new SPFPTRMechanism(domain), qualifier);
+  }
+
+  /**
+   * Adds an 'ip4' directive.
+   * @param address the address or network, e.g. '192.0.2.0/24'.
+   * @param qualifier the qualifier.
+   * @returns the builder, for chaining.
+   */
+  public ip4(
+    address: string | IPv4Address,
+    qualifier: SPFDirectiveQualifier = SPFDirectiveQualifier.Pass
+  ): this {
+    return this.directive(
+      typeof address === "string"
+        ? SPFIPv4Mechanism.parse(address)
+        : new SPFIPv4Mechanism(address),
+      qualifier
+    );
+  }
+
+  /**
+   * Adds an 'ip6' directive.
+   * @param address the address or network, e.g. '2001:db8::/32'.
+   * @param qualifier the qualifier.
+   * @returns the builder, for chaining.
+   */
+  public ip6(
+    address: string | IPv6Address,
+    qualifier: SPFDirectiveQualifier = SPFDirectiveQualifier.Pass
+  ): this {
+    return this.directive(
+      typeof address === "string"
+        ? SPFIPv6Mechanism.parse(address)
+        : new SPFIPv6Mechanism(address),
+      qualifier
+    );
+  }
+
+  /**
+   * Adds an 'exists' directive.
+   * @param domain the domain.
+   * @param qualifier the qualifier.
+   * @returns the builder, for chaining.
+   */
+  public exists(
+    domain: string,
+    qualifier: SPFDirectiveQualifier = SPFDirectiveQualifier.Pass
+  ): this {
+    return this.directive(new SPFExistsMechanism(domain), qualifier);
+  }
+
+  /**
+   * Sets the 'redirect' modifier.
+   * @param domain the domain to redirect to.
+   * @returns the builder, for chaining.
+   * @throws SPFSyntacticalError if the domain is invalid, or the modifier is already set.
+   */
+  public redirect(domain: string): this {
+    return this._setModifier(
+      SPFRedirectModifier,
+      new SPFRedirectModifier(domain)
+    );
+  }
+
+  /**
+   * Sets the 'exp' modifier.
+   * @param domain the domain of the explanation.
+   * @returns the builder, for chaining.
+   * @throws SPFSyntacticalError if the domain is invalid, or the modifier is already set.
+   */
+  public exp(domain: string): this {
+    return this._setModifier(
+      SPFExplainModifier,
+      new SPFExplainModifier(domain)
+    );
+  }
+
+  /**
+   * Removes all the directives matching the given predicate.
+   * @param predicate the predicate.
+   * @returns the builder, for chaining.
+   */
+  public remove(predicate: (directive: SPFDirective) => boolean): this {
+    for (let i: number = this._directives.length - 1; i >= 0; --i) {
+      if (predicate(this._directives[i])) {
+        this._directives.splice(i, 1);
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Builds the record.
+   * @returns the record.
+   */
+  public build(): SPFRecord {
+    return new SPFRecord(this._directives.slice(), this._modifiers.slice());
+  }
+
+  /**
+   * Sets the modifier of the given type, which may only appear once [RFC7208 6].
+   * @param type the type of the modifier.
+   * @param modifier the modifier.
+   * @returns the builder, for chaining.
+   * @throws SPFSyntacticalError if the modifier is invalid, or already set.
+   * @protected
+   */
+  protected _setModifier(
+    type: new (...args: never[]) => SPFModifier,
+    modifier: SPFModifier
+  ): this {
+    SPFRecordBuilder._validate(modifier.toString());
+
+    if (this._modifiers.some((elem: SPFModifier) => elem instanceof type)) {
+      throw new SPFSyntacticalError(
+        `Modifier may only appear once: ${modifier.toString()}`
+      );
+    }
+
+    this._modifiers.push(modifier);
+    return this;
+  }
+
+  /**
+   * Validates the given encoded term, by parsing it as part of a record.
+   * @param raw the encoded term.
+   * @throws SPFSyntacticalError if the term is invalid.
+   * @protected
+   */
+  protected static _validate(raw: string): void {
+    const terms: SPFTerm[] = SPFRecordParser.tokenize(raw);
+    if (terms.length !== 1 || terms[0].raw !== raw) {
+      throw new SPFSyntacticalError(`Invalid SPF term: "${raw}"`);
+    }
+
+    SPFRecordParser.parseTerm(terms[0]);
+  }
+}
@@ -0,0 +1,523 @@
+import {
+  SPFAllMechanism,
+  SPFAMechanism,
+  SPFDirective,
+  SPFDirectiveQualifier,
+  SPFExistsMechanism,
+  SPFIncludeMechanism,
+  SPFMechanism,
+  SPFMXMechanism,
+  SPFPTRMechanism,
+} from "./SPFDirectives";
+import { SPF_MAX_DNS_LOOKUPS } from "./SPFEvaluation";
+import { SPFLintError } from "./SPFErrors";
+import {
+  SPFExplainModifier,
+  SPFModifier,
+  SPFRedirectModifier,
+  SPFUnknownModifier,
+} from "./SPFModifiers";
+import { SPFRecord, SPF_RECORD_VERSION } from "./SPFRecord";
+import {
+  SPFParseError,
+  SPFParseErrorCode,
+  SPFRecordParser,
+  SPFTerm,
+} from "./SPFRecordParser";
+import { ISPFResolver } from "./SPFResolver";
+
+export const SPF_RECORD_RECOMMENDED_MAX_LENGTH: number = 450; // [RFC7208] Keeps the answer within 512 bytes.
+
+export enum SPFLintSeverity {
+  Error = "error",
+  Warning = "warning",
+}
+
+export enum SPFLintCode {
+  NoRecord = "no-record",
+  MultipleRecords = "multiple-records",
+  InvalidVersion = "invalid-version",
+  SyntaxError = "syntax-error",
+  UnknownMechanism = "unknown-mechanism",
+  UnknownModifier = "unknown-modifier",
+  DuplicateRedirect = "duplicate-redirect",
+  DuplicateExplain = "duplicate-exp",
+  TermsAfterAll = "terms-after-all",
+  RedirectWithAll = "redirect-with-all",
+  DeprecatedPTR = "deprecated-ptr",
+  PassAll = "pass-all",
+  TooManyLookups = "too-many-lookups",
+  LookupFailed = "lookup-failed",
+  RecordTooLong = "record-too-long",
+}
+
+export class SPFLintDiagnostic {
+  /**
+   * Constructs a new lint diagnostic.
+   * @param severity the severity.
+   * @param code the code, identifying the kind of problem.
+   * @param message the human readable message.
+   * @param column the (one based) column of the offending text in the record.
+   * @param text the offending text.
+   */
+  public constructor(
+    public readonly severity: SPFLintSeverity,
+    public readonly code: SPFLintCode,
+    public readonly message: string,
+    public readonly column: number = 1,
+    public readonly text: string | null = null
+  ) {}
+
+  /**
+   * Gets the string version of the diagnostic.
+   * @returns the string version.
+   */
+  public toString(): string {
+    return `${this.severity}[${this.code}] at ${this.column}: ${this.message}`;
+  }
+}
+
+export class SPFRecordLinter {
+  /**
+   * Constructs a new record linter.
+   * @param resolver the resolver used to expand includes and redirects, if null
+   *  the DNS lookups of the record itself are counted only.
+   */
+  public constructor(public readonly resolver: ISPFResolver | null = null) {}
+
+  /**
+   * Resolves the TXT records of the given domain, and lints them.
+   * @param domain the domain.
+   * @returns the diagnostics.
+   * @throws SPFLintError if the linter has no resolver.
+   */
+  public async lintDomain(domain: string): Promise<SPFLintDiagnostic[]> {
+    if (this.resolver === null) {
+      throw new SPFLintError("Linting a domain requires a resolver.");
+    }
+
+    // Gets the TXT records, concatenating their character-strings.
+    let records: string[];
+    try {
+      records = (await this.resolver.resolveTxt(domain)).map(
+        (record: string[]): string => record.join("")
+      );
+    } catch (e) {
+      return [
+        new SPFLintDiagnostic(
+          SPFLintSeverity.Error,
+          SPFLintCode.LookupFailed,
+          `Could not resolve the TXT records of ${domain}: ${e}`
+        ),
+      ];
+    }
+
+    return this.lintRecords(records);
+  }
+
+  /**
+   * Lints the SPF record among the given TXT records.
+   * @param records all the TXT records of a domain.
+   * @returns the diagnostics.
+   */
+  public async lintRecords(records: string[]): Promise<SPFLintDiagnostic[]> {
+    const spfRecords: string[] = SPFRecord.filter(records);
+
+    // Makes sure there is exactly one record.
+    if (spfRecords.length === 0) {
+      return [
+        new SPFLintDiagnostic(
+          SPFLintSeverity.Error,
+          SPFLintCode.NoRecord,
+          "No SPF record found."
+        ),
+      ];
+    } else if (spfRecords.length > 1) {
+      const found: string = spfRecords
+        .map((record: string): string => `"${record}"`)
+        .join(", ");
+      return [
+        new SPFLintDiagnostic(
+          SPFLintSeverity.Error,
+          SPFLintCode.MultipleRecords,
+          `Found ${spfRecords.length} SPF records, only one is allowed: ${found}`
+        ),
+        ...(await this.lint(spfRecords[0])),
+      ];
+    }
+
+    return this.lint(spfRecords[0]);
+  }
+
+  /**
+   * Lints a single SPF record.
+   * @param record the record, starting with the version.
+   * @returns the diagnostics.
+   */
+  public async lint(record: string): Promise<SPFLintDiagnostic[]> {
+    const diagnostics: SPFLintDiagnostic[] = [];
+
+    // Checks the length of the record.
+    if (record.length > SPF_RECORD_RECOMMENDED_MAX_LENGTH) {
+      diagnostics.push(
+        new SPFLintDiagnostic(
+          SPFLintSeverity.Warning,
+          SPFLintCode.RecordTooLong,
+          `Record is ${record.length} bytes, more than the recommended ${SPF_RECORD_RECOMMENDED_MAX_LENGTH}.`,
+          SPF_RECORD_RECOMMENDED_MAX_LENGTH + 1
+        )
+      );
+    }
+
+    // Checks the version of the record.
+    const version: RegExpMatchArray | null = record.match(/^v=spf1( |$)/i);
+    if (version === null) {
+      diagnostics.push(
+        new SPFLintDiagnostic(
+          SPFLintSeverity.Error,
+          SPFLintCode.InvalidVersion,
+          `Record must start with "${SPF_RECORD_VERSION}".`,
+          1,
+          record.split(/\s/)[0]
+        )
+      );
+      return diagnostics;
+    }
+
+    // Parses all the terms, and performs the checks on them.
+    const terms: SPFTerm[] = this._terms(record, diagnostics);
+    this._checkTerms(terms, diagnostics);
+
+    // Counts the lookups, including the ones caused by includes and redirects.
+    await this._checkLookups(terms, diagnostics);
+
+    // Sorts the diagnostics by their column in the record.
+    return diagnostics.sort(
+      (a: SPFLintDiagnostic, b: SPFLintDiagnostic): number =>
+        a.column - b.column
+    );
+  }
+
+  /**
+   * Splits the record into terms, and parses them one by one.
+   * @param record the record.
+   * @param diagnostics the diagnostics to add to.
+   * @returns the parsed terms.
+   * @protected
+   */
+  protected _terms(
+    record: string,
+    diagnostics: SPFLintDiagnostic[]
+  ): SPFTerm[] {
+    const terms: SPFTerm[] = [];
+
+    for (const term of SPFRecordParser.tokenize(record)) {
+      try {
+        terms.push(SPFRecordParser.parseTerm(term));
+      } catch (e) {
+        if (!(e instanceof SPFParseError)) {
+          throw e;
+        }
+
+        diagnostics.push(SPFRecordLinter._parseErrorDiagnostic(e, term));
+      }
+    }
+
+    return terms;
+  }
+
+  /**
+   * Constructs the diagnostic of a term which could not be parsed.
+   * @param error the parse error.
+   * @param term the term.
+   * @returns the diagnostic.
+   * @protected
+   */
+  protected static _parseErrorDiagnostic(
+    error: SPFParseError,
+    term: SPFTerm
+  ): SPFLintDiagnostic {
+    switch (error.code) {
+      case SPFParseErrorCode.UnknownMechanism:
+        return new SPFLintDiagnostic(
+          SPFLintSeverity.Error,
+          SPFLintCode.UnknownMechanism,
+          error.reason,
+          error.column,
+          term.raw
+        );
+      default:
+        return new SPFLintDiagnostic(
+          SPFLintSeverity.Error,
+          SPFLintCode.SyntaxError,
+          error.reason,
+          error.column,
+          term.raw
+        );
+    }
+  }
+
+  /**
+   * Performs the checks on the decoded terms.
+   * @param terms the terms.
+   * @param diagnostics the diagnostics to add to.
+   * @protected
+   */
+  protected _checkTerms(
+    terms: SPFTerm[],
+    diagnostics: SPFLintDiagnostic[]
+  ): void {
+    let all: SPFTerm | null = null;
+    let redirect: SPFTerm | null = null;
+    let explain: SPFTerm | null = null;
+    let afterAll: boolean = false;
+
+    for (const term of terms) {
+      if (term.value instanceof SPFDirective) {
+        const directive: SPFDirective = term.value;
+
+        // Checks if the directive will ever be evaluated, only reported for
+        //  the first directive following the all mechanism.
+        if (all !== null && !afterAll) {
+          afterAll = true;
+          diagnostics.push(
+            new SPFLintDiagnostic(
+              SPFLintSeverity.Warning,
+              SPFLintCode.TermsAfterAll,
+              `"${term.raw}" and all following directives come after "${all.raw}", and will never be evaluated.`,
+              term.offset + 1,
+              term.raw
+            )
+          );
+        }
+
+        // Checks the mechanism itself.
+        if (directive.mechanism instanceof SPFAllMechanism) {
+          all ??= term;
+
+          if (directive.qualifier === SPFDirectiveQualifier.Pass) {
+            diagnostics.push(
+              new SPFLintDiagnostic(
+                SPFLintSeverity.Error,
+                SPFLintCode.PassAll,
+                `"${term.raw}" allows any host to send mail for the domain.`,
+                term.offset + 1,
+                term.raw
+              )
+            );
+          }
+        } else if (directive.mechanism instanceof SPFPTRMechanism) {
+          diagnostics.push(
+            new SPFLintDiagnostic(
+              SPFLintSeverity.Warning,
+              SPFLintCode.DeprecatedPTR,
+              `"${term.raw}" uses the "ptr" mechanism, which should not be used.`,
+              term.offset + 1,
+              term.raw
+            )
+          );
+        }
+      } else if (term.value instanceof SPFRedirectModifier) {
+        if (redirect !== null) {
+          diagnostics.push(
+            new SPFLintDiagnostic(
+              SPFLintSeverity.Error,
+              SPFLintCode.DuplicateRedirect,
+              `"redirect" may only appear once, already seen "${redirect.raw}".`,
+              term.offset + 1,
+              term.raw
+            )
+          );
+        }
+
+        redirect ??= term;
+      } else if (term.value instanceof SPFExplainModifier) {
+        if (explain !== null) {
+          diagnostics.push(
+            new SPFLintDiagnostic(
+              SPFLintSeverity.Error,
+              SPFLintCode.DuplicateExplain,
+              `"exp" may only appear once, already seen "${explain.raw}".`,
+              term.offset + 1,
+              term.raw
+            )
+          );
+        }
+
+        explain ??= term;
+      } else if (term.value instanceof SPFUnknownModifier) {
+        diagnostics.push(
+          new SPFLintDiagnostic(
+            SPFLintSeverity.Warning,
+            SPFLintCode.UnknownModifier,
+            `Unknown SPF modifier "${term.value.name}" is ignored.`,
+            term.offset + 1,
+            term.raw
+          )
+        );
+      }
+    }
+
+    // Checks if the redirect is ignored, because of an all mechanism.
+    if (redirect !== null && all !== null) {
+      diagnostics.push(
+        new SPFLintDiagnostic(
+          SPFLintSeverity.Warning,
+          SPFLintCode.RedirectWithAll,
+          `"${redirect.raw}" is ignored, since the record contains "${all.raw}".`,
+          redirect.offset + 1,
+          redirect.raw
+        )
+      );
+    }
+  }
+
+  /**
+   * Counts the DNS lookups of the record, expanding the includes and redirects.
+   * @param terms the terms.
+   * @param diagnostics the diagnostics to add to.
+   * @protected
+   */
+  protected async _checkLookups(
+    terms: SPFTerm[],
+    diagnostics: SPFLintDiagnostic[]
+  ): Promise<void> {
+    let lookups: number = 0;
+    for (const term of terms) {
+      const domain: string | null = SPFRecordLinter._expandedDomain(term);
+      lookups += SPFRecordLinter._causesLookup(term) ? 1 : 0;
+
+      // Counts the lookups of the included or redirected record.
+      if (domain !== null) {
+        lookups += await this._countLookups(
+          domain,
+          new Set<string>(),
+          diagnostics,
+          term
+        );
+      }
+
+      if (lookups > SPF_MAX_DNS_LOOKUPS) {
+        diagnostics.push(
+          new SPFLintDiagnostic(
+            SPFLintSeverity.Error,
+            SPFLintCode.TooManyLookups,
+            `More than ${SPF_MAX_DNS_LOOKUPS} DNS lookups (${lookups}) once "${term.raw}" is evaluated.`,
+            term.offset + 1,
+            term.raw
+          )
+        );
+        return;
+      }
+    }
+  }
+
+  /**
+   * Counts the DNS lookups of the record of the given domain, recursively.
+   * @param domain the domain.
+   * @param visited the domains already visited, to prevent loops.
+   * @param diagnostics the diagnostics to add to.
+   * @param origin the term in the linted record which caused the lookup.
+   * @returns the number of lookups.
+   * @protected
+   */
+  protected async _countLookups(
+    domain: string,
+    visited: Set<string>,
+    diagnostics: SPFLintDiagnostic[],
+    origin: SPFTerm
+  ): Promise<number> {
+    if (this.resolver === null || visited.has(domain)) {
+      return 0;
+    }
+    visited.add(domain);
+
+    // Resolves and decodes the record.
+    let record: SPFRecord;
+    try {
+      const raw: string | null = SPFRecord.select(
+        (await this.resolver.resolveTxt(domain)).map(
+          (strings: string[]): string => strings.join("")
+        )
+      );
+      if (raw === null) {
+        throw new Error(`${domain} has no SPF record`);
+      }
+
+      record = SPFRecord.decode(raw);
+    } catch (e) {
+      diagnostics.push(
+        new SPFLintDiagnostic(
+          SPFLintSeverity.Warning,
+          SPFLintCode.LookupFailed,
+          `Could not expand "${origin.raw}": ${
+            e instanceof Error ? e.message : e
+          }`,
+          origin.offset + 1,
+          origin.raw
+        )
+      );
+      return 0;
+    }
+
+    // Counts the lookups of the terms of the record.
+    let lookups: number = 0;
+    for (const term of record.terms) {
+      lookups += SPFRecordLinter._causesLookup(term) ? 1 : 0;
+
+      const child: string | null = SPFRecordLinter._expandedDomain(term);
+      if (child !== null) {
+        lookups += await this._countLookups(
+          child,
+          visited,
+          diagnostics,
+          origin
+        );
+      }
+    }
+
+    return lookups;
+  }
+
+  /**
+   * Checks if the given term causes a DNS lookup.
+   * @param term the term.
+   * @returns if it causes a lookup.
+   * @protected
+   */
+  protected static _causesLookup(term: SPFTerm): boolean {
+    if (!(term.value instanceof SPFDirective)) {
+      return term.value instanceof SPFRedirectModifier;
+    }
+
+    const mechanism: SPFMechanism = term.value.mechanism;
+    return (
+      mechanism instanceof SPFIncludeMechanism ||
+      mechanism instanceof SPFAMechanism ||
+      mechanism instanceof SPFMXMechanism ||
+      mechanism instanceof SPFPTRMechanism ||
+      mechanism instanceof SPFExistsMechanism
+    );
+  }
+
+  /**
+   * Gets the domain of the record the term includes or redirects to, if any,
+   *  domains containing macros cannot be expanded.
+   * @param term the term.
+   * @returns the domain, or null.
+   * @protected
+   */
+  protected static _expandedDomain(term: SPFTerm): string | null {
+    let domain: string | null = null;
+    if (
+      term.value instanceof SPFDirective &&
+      term.value.mechanism instanceof SPFIncludeMechanism
+    ) {
+      domain = term.value.mechanism.domain;
+    } else if (term.value instanceof SPFRedirectModifier) {
+      domain = term.value.hostname;
+    }
+
+    return domain !== null && !domain.includes("%") ? domain : null;
+  }
+}
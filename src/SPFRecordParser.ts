@@ -0,0 +1,275 @@
+import { SPFDirective, SPFDirectiveMechanismKeywords } from "./SPFDirectives";
+import { SPFSyntacticalError } from "./SPFErrors";
+import { SPFMacroProcessor } from "./SPFMacroProcessor";
+import {
+  SPFExplainModifier,
+  SPFModifier,
+  SPFRedirectModifier,
+} from "./SPFModifiers";
+import { SPFRecord } from "./SPFRecord";
+
+export enum SPFParseErrorCode {
+  InvalidVersion = "invalid-version",
+  InvalidTerm = "invalid-term",
+  UnknownMechanism = "unknown-mechanism",
+  InvalidMechanism = "invalid-mechanism",
+  InvalidModifier = "invalid-modifier",
+  DuplicateModifier = "duplicate-modifier",
+}
+
+export class SPFParseError extends SPFSyntacticalError {
+  /**
+   * Constructs a new parse error.
+   * @param reason the reason, without location.
+   * @param code the code, identifying the kind of error.
+   * @param termIndex the index of the offending term (the version not counted), or -1.
+   * @param column the (one based) column of the offending text in the record.
+   * @param text the offending text.
+   */
+  public constructor(
+    public readonly reason: string,
+    public readonly code: SPFParseErrorCode,
+    public readonly termIndex: number,
+    public readonly column: number,
+    public readonly text: string
+  ) {
+    super(`${reason} (term ${termIndex}, column ${column}: "${text}")`);
+  }
+}
+
+export class SPFTerm {
+  /**
+   * Constructs a new term.
+   * @param index the index of the term in the record (the version not counted).
+   * @param offset the (zero based) character offset of the term in the record.
+   * @param raw the raw text of the term.
+   * @param value the parsed directive or modifier.
+   */
+  public constructor(
+    public readonly index: number,
+    public readonly offset: number,
+    public readonly raw: string,
+    public readonly value: SPFDirective | SPFModifier | null = null
+  ) {}
+}
+
+// [RFC7208] name = ALPHA *( ALPHA / DIGIT / "-" / "_" / "." )
+const SPF_NAME_PATTERN: string = "[a-z][a-z0-9\\-_.]*";
+
+export class SPFRecordParser {
+  /**
+   * Splits the record into (unparsed) terms, the version is skipped if present.
+   * @param raw the raw record.
+   * @returns the terms.
+   */
+  public static tokenize(raw: string): SPFTerm[] {
+    const terms: SPFTerm[] = [];
+
+    const pattern: RegExp = /\S+/g;
+    for (
+      let match: RegExpExecArray | null = pattern.exec(raw);
+      match !== null;
+      match = pattern.exec(raw)
+    ) {
+      // Skips the version, which may only be the first term.
+      if (match.index === raw.search(/\S/) && /^v=spf1$/i.test(match[0])) {
+        continue;
+      }
+
+      terms.push(new SPFTerm(terms.length, match.index, match[0]));
+    }
+
+    return terms;
+  }
+
+  /**
+   * Parses a single term into a directive or modifier.
+   *  The macro's in the value are validated, but kept as-is, so they can be
+   *  expanded for each evaluation.
+   * @param term the term to parse.
+   * @returns the term with its parsed value.
+   */
+  public static parseTerm(term: SPFTerm): SPFTerm {
+    const modifier: RegExpMatchArray | null = term.raw.match(
+      new RegExp(`^(?<name>${SPF_NAME_PATTERN})=(?<value>.*)$`, "i")
+    );
+    const directive: RegExpMatchArray | null = term.raw.match(
+      new RegExp(
+        `^(?<qualifier>[+\\-~?])?(?<name>${SPF_NAME_PATTERN})(?<rest>[:/].*)?$`,
+        "i"
+      )
+    );
+
+    // Validates the macro's in the possible value.
+    const validate = (value: string): string => {
+      SPFMacroProcessor.validate(value);
+      return value;
+    };
+
+    if (modifier !== null) {
+      const name: string = modifier.groups!.name;
+      const value: string = modifier.groups!.value;
+
+      // Parses the modifier, unknown ones are kept as-is.
+      try {
+        return new SPFTerm(
+          term.index,
+          term.offset,
+          term.raw,
+          SPFModifier.parse(name, validate(value))
+        );
+      } catch (e) {
+        throw SPFRecordParser._error(
+          e,
+          SPFParseErrorCode.InvalidModifier,
+          term
+        );
+      }
+    } else if (directive !== null) {
+      const qualifier: string = directive.groups!.qualifier ?? "";
+      const name: string = directive.groups!.name.toLowerCase();
+      const rest: string | undefined = directive.groups!.rest;
+
+      // Makes sure the mechanism is known.
+      if (
+        !(Object.values(SPFDirectiveMechanismKeywords) as string[]).includes(
+          name
+        )
+      ) {
+        throw new SPFParseError(
+          `Unknown SPF mechanism: ${name}`,
+          SPFParseErrorCode.UnknownMechanism,
+          term.index,
+          term.offset + 1,
+          term.raw
+        );
+      }
+
+      // [RFC7208] A colon must be followed by a domain-spec, before any CIDR length.
+      if (rest !== undefined && /^:(?:\/|$)/.test(rest)) {
+        throw new SPFParseError(
+          `Empty domain-spec in SPF mechanism: ${name}`,
+          SPFParseErrorCode.InvalidMechanism,
+          term.index,
+          term.offset + 1,
+          term.raw
+        );
+      }
+
+      // Gets the value, the part after the colon, or the CIDR length directly after the name.
+      let value: string | null = null;
+      if (rest !== undefined) {
+        value = rest.startsWith(":") ? rest.substring(1) : rest;
+      }
+
+      // Parses the directive.
+      try {
+        return new SPFTerm(
+          term.index,
+          term.offset,
+          term.raw,
+          SPFDirective.parse(
+            `${qualifier}${name}`,
+            value !== null ? validate(value) : null
+          )
+        );
+      } catch (e) {
+        throw SPFRecordParser._error(
+          e,
+          SPFParseErrorCode.InvalidMechanism,
+          term
+        );
+      }
+    }
+
+    throw new SPFParseError(
+      "Term is neither a directive nor a modifier",
+      SPFParseErrorCode.InvalidTerm,
+      term.index,
+      term.offset + 1,
+      term.raw
+    );
+  }
+
+  /**
+   * Parses the given record.
+   * @param raw the raw record, with or without version.
+   * @returns the parsed record, with the macro's kept as-is.
+   */
+  public static parse(raw: string): SPFRecord {
+    // Makes sure the possible version is valid.
+    const first: RegExpMatchArray | null = raw.match(/^\s*(?<first>\S+)/);
+    if (
+      first !== null &&
+      /^v=/i.test(first.groups!.first) &&
+      !/^v=spf1$/i.test(first.groups!.first)
+    ) {
+      throw new SPFParseError(
+        "Invalid SPF version",
+        SPFParseErrorCode.InvalidVersion,
+        -1,
+        raw.search(/\S/) + 1,
+        first.groups!.first
+      );
+    }
+
+    // Parses all the terms.
+    const terms: SPFTerm[] = SPFRecordParser.tokenize(raw).map(
+      (term: SPFTerm): SPFTerm => SPFRecordParser.parseTerm(term)
+    );
+
+    // [RFC7208] The redirect and exp modifiers may appear only once.
+    for (const type of [SPFRedirectModifier, SPFExplainModifier]) {
+      const duplicate: SPFTerm | undefined = terms
+        .filter((term: SPFTerm): boolean => term.value instanceof type)
+        .at(1);
+      if (duplicate !== undefined) {
+        throw new SPFParseError(
+          `The "${
+            type === SPFRedirectModifier ? "redirect" : "exp"
+          }" modifier may only appear once`,
+          SPFParseErrorCode.DuplicateModifier,
+          duplicate.index,
+          duplicate.offset + 1,
+          duplicate.raw
+        );
+      }
+    }
+
+    return new SPFRecord(
+      terms
+        .filter((term: SPFTerm): boolean => term.value instanceof SPFDirective)
+        .map((term: SPFTerm): SPFDirective => term.value as SPFDirective),
+      terms
+        .filter((term: SPFTerm): boolean => term.value instanceof SPFModifier)
+        .map((term: SPFTerm): SPFModifier => term.value as SPFModifier),
+      terms
+    );
+  }
+
+  /**
+   * Wraps an error thrown while parsing a term.
+   * @param error the thrown error.
+   * @param code the code.
+   * @param term the term.
+   * @returns the parse error.
+   * @protected
+   */
+  protected static _error(
+    error: unknown,
+    code: SPFParseErrorCode,
+    term: SPFTerm
+  ): SPFParseError {
+    if (!(error instanceof SPFSyntacticalError)) {
+      throw error;
+    }
+
+    return new SPFParseError(
+      error.message,
+      code,
+      term.index,
+      term.offset + 1,
+      term.raw
+    );
+  }
+}
@@ -0,0 +1,207 @@
+import dns from "dns";
+import net from "net";
+import util from "util";
+
+/**
+ * Expands an IPv6 address into its eight, fully written, groups.
+ * @param address the encoded IPv6 address.
+ * @returns the eight groups, each four hex digits long.
+ */
+export const spf_ipv6_expand = (address: string): string[] => {
+  // Converts a possibly embedded IPv4 address into two hex groups.
+  const embedded: RegExpMatchArray | null = address.match(
+    /^(?<prefix>.*:)(?<ipv4>\d+\.\d+\.\d+\.\d+)$/
+  );
+  if (embedded) {
+    const octets: number[] = embedded.groups!.ipv4.split(".").map(Number);
+    address = `${embedded.groups!.prefix}${(
+      (octets[0] << 8) |
+      octets[1]
+    ).toString(16)}:${((octets[2] << 8) | octets[3]).toString(16)}`;
+  }
+
+  // Splits the address on the possible double colon, and fills the gap.
+  const [head, tail] = address.split("::") as [string, string | undefined];
+  const headGroups: string[] = head.length > 0 ? head.split(":") : [];
+  const tailGroups: string[] =
+    tail !== undefined && tail.length > 0 ? tail.split(":") : [];
+  const fill: string[] =
+    tail !== undefined
+      ? new Array(8 - headGroups.length - tailGroups.length).fill("0")
+      : [];
+
+  // Pads all the groups to four digits.
+  return [...headGroups, ...fill, ...tailGroups].map((group: string): string =>
+    group.toLowerCase().padStart(4, "0")
+  );
+};
+
+/**
+ * Gets the reverse lookup name (in-addr.arpa / ip6.arpa) of the given address.
+ * @param address the encoded IPv4 or IPv6 address.
+ * @returns the reverse lookup name.
+ */
+export const spf_address_reverse_name = (address: string): string => {
+  if (net.isIPv4(address)) {
+    return `${address.split(".").reverse().join(".")}.in-addr.arpa`;
+  } else if (net.isIPv6(address)) {
+    return `${spf_ipv6_expand(address)
+      .join("")
+      .split("")
+      .reverse()
+      .join(".")}.ip6.arpa`;
+  }
+
+  throw new Error(`Not an IPv4 or IPv6 address: ${address}`);
+};
+
+/**
+ * Checks if the given name is the given domain, or a subdomain of it, comparing
+ *  whole labels case-insensitively.
+ * @param name the name to check.
+ * @param domain the domain.
+ * @returns if the name is (in) the domain.
+ */
+export const spf_domain_within = (name: string, domain: string): boolean => {
+  name = name.toLowerCase().replace(/\.$/, "");
+  domain = domain.toLowerCase().replace(/\.$/, "");
+  return name === domain || name.endsWith(`.${domain}`);
+};
+
+/**
+ * Checks if the given resolver error means the answer is empty (the name does
+ *  not exist, or has no records of the type), instead of the lookup having failed.
+ * @param error the error (or other value) the resolver rejected with.
+ * @returns if the answer is empty.
+ */
+export const spf_resolver_error_is_void = (error: unknown): boolean => {
+  // Custom resolvers may reject with plain objects, so any object with a code counts.
+  if (typeof error !== "object" || error === null) {
+    return false;
+  }
+
+  const code: unknown = (error as { code?: unknown }).code;
+  return code === dns.NOTFOUND || code === dns.NODATA;
+};
+
+/**
+ * A DNS resolver, which rejects the same way as Node's dns module does, with an
+ *  ENOTFOUND or ENODATA code for empty answers.
+ */
+export interface ISPFResolver {
+  /**
+   * Resolves the TXT records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the TXT records, each as an array of character-strings.
+   */
+  resolveTxt(hostname: string): Promise<string[][]>;
+
+  /**
+   * Resolves the A records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the IPv4 addresses.
+   */
+  resolve4(hostname: string): Promise<string[]>;
+
+  /**
+   * Resolves the AAAA records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the IPv6 addresses.
+   */
+  resolve6(hostname: string): Promise<string[]>;
+
+  /**
+   * Resolves the A records of the given hostname with their TTLs, used by the
+   *  caching resolver if implemented.
+   * @param hostname the hostname.
+   * @returns the IPv4 addresses, with their TTLs.
+   */
+  resolve4WithTtl?(hostname: string): Promise<dns.RecordWithTtl[]>;
+
+  /**
+   * Resolves the AAAA records of the given hostname with their TTLs, used by the
+   *  caching resolver if implemented.
+   * @param hostname the hostname.
+   * @returns the IPv6 addresses, with their TTLs.
+   */
+  resolve6WithTtl?(hostname: string): Promise<dns.RecordWithTtl[]>;
+
+  /**
+   * Resolves the MX records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the mail exchanges.
+   */
+  resolveMx(hostname: string): Promise<dns.MxRecord[]>;
+
+  /**
+   * Performs a reverse (PTR) lookup of the given address.
+   * @param address the encoded IPv4 or IPv6 address.
+   * @returns the hostnames.
+   */
+  reverse(address: string): Promise<string[]>;
+}
+
+export class SPFDNSResolver implements ISPFResolver {
+  /**
+   * Resolves the TXT records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the TXT records, each as an array of character-strings.
+   */
+  public resolveTxt(hostname: string): Promise<string[][]> {
+    return util.promisify(dns.resolveTxt)(hostname);
+  }
+
+  /**
+   * Resolves the A records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the IPv4 addresses.
+   */
+  public resolve4(hostname: string): Promise<string[]> {
+    return util.promisify(dns.resolve4)(hostname);
+  }
+
+  /**
+   * Resolves the AAAA records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the IPv6 addresses.
+   */
+  public resolve6(hostname: string): Promise<string[]> {
+    return util.promisify(dns.resolve6)(hostname);
+  }
+
+  /**
+   * Resolves the A records of the given hostname with their TTLs.
+   * @param hostname the hostname.
+   * @returns the IPv4 addresses, with their TTLs.
+   */
+  public resolve4WithTtl(hostname: string): Promise<dns.RecordWithTtl[]> {
+    return dns.promises.resolve4(hostname, { ttl: true });
+  }
+
+  /**
+   * Resolves the AAAA records of the given hostname with their TTLs.
+   * @param hostname the hostname.
+   * @returns the IPv6 addresses, with their TTLs.
+   */
+  public resolve6WithTtl(hostname: string): Promise<dns.RecordWithTtl[]> {
+    return dns.promises.resolve6(hostname, { ttl: true });
+  }
+
+  /**
+   * Resolves the MX records of the given hostname.
+   * @param hostname the hostname.
+   * @returns the mail exchanges.
+   */
+  public resolveMx(hostname: string): Promise<dns.MxRecord[]> {
+    return util.promisify(dns.resolveMx)(hostname);
+  }
+
+  /**
+   * Performs a reverse (PTR) lookup of the given address.
+   * @param address the encoded IPv4 or IPv6 address.
+   * @returns the hostnames.
+   */
+  public reverse(address: string): Promise<string[]> {
+    return util.promisify(dns.reverse)(address);
+  }
+}
@@ -1,9 +1,13 @@
-import { MimeMappedHeaderValue } from "llibmime";
+import { MimeHeaders } from "llibmime";
 import { SPFCheckedIdentity } from "./SPFCheckedIdentity";
-import { ISPFContext } from "./SPFContext";
+import { ISPFCheckedContext, ISPFContextMessage } from "./SPFContext";
 import { SPFMechanism } from "./SPFDirectives";
+import { SPFHeaderError } from "./SPFErrors";
+import { SPFLocalPolicyRule } from "./SPFLocalPolicy";
+import { SPFTraceCheck } from "./SPFTrace";
 
 export const RECEIVED_SPF_HEADER_KEY = 'Received-SPF';
+export const AUTHENTICATION_RESULTS_HEADER_KEY = 'Authentication-Results';
 
 export enum SPFResultType {
   None = 'none',
@@ -15,7 +19,81 @@ export enum SPFResultType {
   PermError = 'permerror',
 }
 
+/**
+ * Encodes a header value as dot-atom if possible, otherwise as quoted-string [RFC5322 3.2].
+ * @param value the value.
+ * @returns the encoded value.
+ */
+export const spf_header_value_encode = (value: string): string => {
+  if (/^[a-z0-9!#$%&'*+\-/=?^_`{|}~]+(\.[a-z0-9!#$%&'*+\-/=?^_`{|}~]+)*$/i.test(value)) {
+    return value;
+  }
+
+  return `"${value.replace(/["\\]/g, '\\$&').replace(/[\r\n]+/g, ' ')}"`;
+};
+
+/**
+ * Encodes a property value of an Authentication-Results header, a mailbox or domain
+ *  is kept as-is (quoting the local-part if needed), anything else is quoted [RFC8601 2.2].
+ * @param value the value.
+ * @returns the encoded value.
+ */
+export const spf_header_pvalue_encode = (value: string): string => {
+  const mailbox: RegExpMatchArray | null = value.match(/^(?:(?<local>.*)@)?(?<domain>[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)*\.?)$/i);
+  if (mailbox === null) {
+    return `"${value.replace(/["\\]/g, '\\$&').replace(/[\r\n]+/g, ' ')}"`;
+  } else if (mailbox.groups!.local === undefined) {
+    return value;
+  }
+
+  return `${spf_header_value_encode(mailbox.groups!.local)}@${mailbox.groups!.domain}`;
+};
+
+/**
+ * Encodes the text of a header comment, escaping the parentheses and backslashes [RFC5322 3.2.2].
+ * @param text the text.
+ * @returns the encoded text, without the surrounding parentheses.
+ */
+export const spf_header_comment_encode = (text: string): string =>
+  text.replace(/[()\\]/g, '\\$&').replace(/[\r\n]+/g, ' ');
+
+/**
+ * Folds the given header value on its whitespace, so the lines don't exceed the maximum length [RFC5322 2.2.3].
+ * @param value the unfolded value.
+ * @param offset the length of the header key and colon, before the value on the first line.
+ * @param maxLength the maximum length of a line.
+ * @returns the folded value.
+ */
+export const spf_header_fold = (value: string, offset: number = 0, maxLength: number = 78): string => {
+  const lines: string[] = [];
+
+  let line: string | null = null;
+  for (const word of value.split(' ')) {
+    if (line === null) {
+      line = word;
+    } else if ((lines.length === 0 ? offset : 1) + line.length + 1 + word.length > maxLength) {
+      lines.push(line);
+      line = word;
+    } else {
+      line += ` ${word}`;
+    }
+  }
+  lines.push(line ?? '');
+
+  return lines.join('\r\n ');
+};
+
 export class SPFResult {
+  /**
+   * The trace of the evaluation, only set if tracing was enabled.
+   */
+  public trace: SPFTraceCheck | null = null;
+
+  /**
+   * The checked domain, set by the validator once the check is done.
+   */
+  public domain: string | null = null;
+
   /**
    * Constructs a new SPF result.
    * @param type the type of the result.
@@ -23,43 +101,152 @@ export class SPFResult {
    * @param mechanism the matching mechanism.
    * @param comment the comment.
    * @param explaination the possible explaination supplied by provider.
+   * @param policy the local policy rule which determined the result, null if it is the published verdict.
+   * @param published the verdict of the published record, if overruled by the local policy.
+   */
+  public constructor(public readonly type: SPFResultType, public readonly context: ISPFCheckedContext, public readonly mechanism: SPFMechanism | null = null, public readonly comment: string | null = null, public readonly explaination: string | null = null, public readonly policy: SPFLocalPolicyRule | null = null, public readonly published: SPFResult | null = null) {}
+
+  /**
+   * Gets the standard comment of the result [RFC7208 9.1], stating what the domain
+   *  of the checked identity (or the local policy) says about the client.
+   * @returns the comment, without parentheses.
    */
-  public constructor(public readonly type: SPFResultType, public readonly context: ISPFContext, public readonly mechanism: SPFMechanism | null = null, public readonly comment: string | null = null, public readonly explaination: string | null = null) {}
+  public describe(): string {
+    const ip: string = this.context.client.ipAddress.encode();
+
+    switch (this.policy) {
+      case SPFLocalPolicyRule.TrustedNetwork:
+        return `${ip} is in a trusted network of ${this.context.server.hostname}`;
+      case SPFLocalPolicyRule.TrustedForwarder:
+        return `${ip} is a trusted forwarder of ${this.context.server.hostname}`;
+      case SPFLocalPolicyRule.BestGuess:
+        return `best guess record, ${this._describe()}`;
+      default:
+        return this._describe();
+    }
+  }
 
   /**
-   * Constructs the header version of the result.
-   * @returns the header version of the result.
+   * Gets the envelope sender, postmaster@<helo> if MAIL FROM is null [RFC7208 2.4].
+   * @returns the envelope sender.
+   * @protected
+   */
+  protected _envelopeFrom(): string {
+    const message: ISPFContextMessage = this.context.message ?? this.context.sender;
+    return `${message.emailUsername}@${message.emailDomain}`;
+  }
+
+  /**
+   * Gets the standard comment of the result type, as if it were the verdict of a record.
+   * @returns the comment, without parentheses.
+   * @protected
+   */
+  protected _describe(): string {
+    const ip: string = this.context.client.ipAddress.encode();
+    const sender: string = this.context.identity === SPFCheckedIdentity.Helo
+      ? this.context.client.greetHostname
+      : `${this.context.sender.emailUsername}@${this.context.sender.emailDomain}`;
+
+    switch (this.type) {
+      case SPFResultType.Pass:
+        return `domain of ${sender} designates ${ip} as permitted sender`;
+      case SPFResultType.Fail:
+        return `domain of ${sender} does not designate ${ip} as permitted sender`;
+      case SPFResultType.SoftFail:
+        return `domain of transitioning ${sender} does not designate ${ip} as permitted sender`;
+      case SPFResultType.Neutral:
+        return `${ip} is neither permitted nor denied by domain of ${sender}`;
+      case SPFResultType.None:
+        return `domain of ${sender} does not designate permitted sender hosts`;
+      case SPFResultType.TempError:
+        return `error in processing during lookup of ${sender}`;
+      case SPFResultType.PermError:
+        return `permanent error in processing domain of ${sender}`;
+    }
+  }
+
+  /**
+   * Constructs the header version of the result [RFC7208 9.1].
+   * @returns the header version of the result, folded if it is long.
    */
   public asHeader(): [string, string] {
     // Constructs the key/ value pairs.
-    const pairs: {[key: string]: string} = {
-      "client-ip": this.context.client.ipAddress.encode(),
-      "envelope-from": `${this.context.message.emailUsername}@${this.context.message.emailDomain}`,
-      "helo": this.context.client.greetHostname,
-      "receiver": this.context.server.hostname,
-      "mechanism": this.mechanism ? this.mechanism.toString() : 'default',
-      "identity": SPFCheckedIdentity.MailFrom,
-    };
+    const pairs: [string, string][] = [
+      ['client-ip', this.context.client.ipAddress.encode()],
+      ['envelope-from', this._envelopeFrom()],
+      ['helo', this.context.client.greetHostname],
+    ];
+
+    // [RFC7208] The problem is only there for errors, and the mechanism only if the
+    //  record was evaluated, 'default' if none of the mechanisms matched.
+    if (this.type === SPFResultType.TempError || this.type === SPFResultType.PermError) {
+      pairs.push(['problem', this.comment ?? this.type]);
+    } else if (this.type !== SPFResultType.None) {
+      pairs.push(['mechanism', this.mechanism ? this.mechanism.toString() : 'default']);
+    }
+
+    pairs.push(['receiver', this.context.server.hostname]);
+    pairs.push(['identity', this.context.identity]);
 
     // Encodes the pairs.
-    const encodedPairs: string = Object.entries(pairs).map((elem: [string, string], index: number): string => {
-      // Gets the key and value for ease.
-      const key: string = elem[0];
-      const value: string = elem[1];
-
-      // Tests for whitespace, if so enclose it in double quotes.
-      if (/\s+/g.test(value)) {
-        return `${key}="${value}";`;
-      }
+    const encodedPairs: string = pairs.map(([key, value]: [string, string]): string =>
+      `${key}=${spf_header_value_encode(value)};`
+    ).join(' ');
 
-      // No whitespace, just keep it _raw_.
-      return `${key}=${value};`;
-    }).join(' ');
-    
     // Returns the built header.
     return [
       RECEIVED_SPF_HEADER_KEY,
-      `${this.type} (${this.comment ?? 'None'}) ${encodedPairs}`
+      spf_header_fold(
+        `${this.type} (${spf_header_comment_encode(`${this.context.server.hostname}: ${this.describe()}`)}) ${encodedPairs}`,
+        RECEIVED_SPF_HEADER_KEY.length + 2
+      )
+    ];
+  }
+
+  /**
+   * Constructs the Authentication-Results version of the result [RFC8601], possibly
+   *  merged into the existing header of the same authentication service.
+   * @param authservId the identifier of the authentication service, defaults to our hostname.
+   * @param existing the headers containing the existing header to merge into, or its value, if any.
+   * @returns the header version of the result, folded if it is long.
+   * @throws SPFHeaderError if the existing header is of another authentication service.
+   */
+  public asAuthenticationResults(authservId: string = this.context.server.hostname, existing: MimeHeaders | string | null = null): [string, string] {
+    // Constructs the result, with the reason as comment, and the problem for errors.
+    let resinfo: string = `spf=${this.type} (${spf_header_comment_encode(`${this.context.server.hostname}: ${this.describe()}`)})`;
+    if (this.type === SPFResultType.TempError || this.type === SPFResultType.PermError) {
+      resinfo += ` reason=${spf_header_value_encode(this.comment ?? this.type)}`;
+    }
+
+    // Adds the checked identity, a HELO result says nothing about MAIL FROM.
+    if (this.context.identity === SPFCheckedIdentity.MailFrom) {
+      resinfo += ` smtp.mailfrom=${spf_header_pvalue_encode(this._envelopeFrom())}`;
+    }
+    resinfo += ` smtp.helo=${spf_header_pvalue_encode(this.context.client.greetHostname)}`;
+
+    // Gets the value of the existing header, if the headers contain one.
+    const header: string | null = existing instanceof MimeHeaders
+      ? existing.get(AUTHENTICATION_RESULTS_HEADER_KEY) ?? null
+      : existing;
+
+    // Merges the result into the existing header, replacing the possible 'none'.
+    let value: string = `${authservId}; ${resinfo}`;
+    if (header !== null) {
+      const unfolded: string = header.replace(/\r?\n(?=[ \t])/g, '').trim();
+
+      // [RFC8601] Results of different authentication services may not be combined.
+      const existingId: string | undefined = unfolded.match(/^(?:\([^)]*\)\s*)*(?<id>[^\s;()]+)/)?.groups!.id;
+      if (existingId?.toLowerCase() !== authservId.toLowerCase()) {
+        throw new SPFHeaderError(`Cannot merge into the ${AUTHENTICATION_RESULTS_HEADER_KEY} of ${existingId ?? 'an unknown service'}, expected ${authservId}`);
+      }
+
+      value = `${unfolded.replace(/;\s*none\s*;?$/i, '').replace(/;\s*$/, '')}; ${resinfo}`;
+    }
+
+    // Returns the built header.
+    return [
+      AUTHENTICATION_RESULTS_HEADER_KEY,
+      spf_header_fold(value, AUTHENTICATION_RESULTS_HEADER_KEY.length + 2)
     ];
   }
 }
@@ -0,0 +1,233 @@
+import { SPFResult, SPFResultType } from "./SPFResult";
+
+export interface ISPFTraceQuery {
+  type: string; // The queried record type, e.g. 'TXT'.
+  name: string; // The queried name.
+  answer: unknown[] | null; // The answer, null if the query failed.
+  error: string | null; // The error, if the query failed.
+  start: number; // The timestamp (in milliseconds) the query started.
+  duration: number; // The number of milliseconds the query took.
+}
+
+export class SPFTraceTerm {
+  /**
+   * The expanded domain the term applies to, if any.
+   */
+  public domain: string | null = null;
+
+  /**
+   * If the term matched, null if it did not finish.
+   */
+  public match: boolean | null = null;
+
+  /**
+   * The reason of the (non) match.
+   */
+  public reason: string | null = null;
+
+  /**
+   * The queries performed while evaluating the term.
+   */
+  public readonly queries: ISPFTraceQuery[] = [];
+
+  /**
+   * The nested checks, of an include or redirect.
+   */
+  public readonly checks: SPFTraceCheck[] = [];
+
+  /**
+   * The timestamp (in milliseconds) the evaluation of the term started.
+   */
+  public readonly start: number = Date.now();
+
+  /**
+   * The number of milliseconds the evaluation of the term took.
+   */
+  public duration: number | null = null;
+
+  /**
+   * Constructs a new trace term.
+   * @param term the term, as in the record.
+   * @param qualifier the explicit qualifier, null for modifiers.
+   */
+  public constructor(
+    public readonly term: string,
+    public readonly qualifier: string | null
+  ) {}
+}
+
+export class SPFTraceCheck {
+  /**
+   * The fetched record, null if there is none.
+   */
+  public record: string | null = null;
+
+  /**
+   * The result of the check, null if it did not finish.
+   */
+  public result: SPFResultType | null = null;
+
+  /**
+   * The comment of the result.
+   */
+  public comment: string | null = null;
+
+  /**
+   * The queries performed outside of the terms, e.g. fetching the record.
+   */
+  public readonly queries: ISPFTraceQuery[] = [];
+
+  /**
+   * The evaluated terms, in order.
+   */
+  public readonly terms: SPFTraceTerm[] = [];
+
+  /**
+   * The timestamp (in milliseconds) the check started.
+   */
+  public readonly start: number = Date.now();
+
+  /**
+   * The number of milliseconds the check took.
+   */
+  public duration: number | null = null;
+
+  /**
+   * Constructs a new trace check.
+   * @param domain the checked domain.
+   */
+  public constructor(public readonly domain: string) {}
+}
+
+export class SPFTracer {
+  /**
+   * The top-level check, null if nothing has been traced yet.
+   */
+  public root: SPFTraceCheck | null = null;
+
+  /**
+   * The checks and terms currently being evaluated, innermost last.
+   */
+  protected readonly _stack: (SPFTraceCheck | SPFTraceTerm)[] = [];
+
+  /**
+   * Begins the check of a domain, nested in the current term if any.
+   * @param domain the checked domain.
+   * @returns the check.
+   */
+  public beginCheck(domain: string): SPFTraceCheck {
+    const check: SPFTraceCheck = new SPFTraceCheck(domain);
+
+    const parent: SPFTraceCheck | SPFTraceTerm | undefined = this._top();
+    if (parent instanceof SPFTraceTerm) {
+      parent.checks.push(check);
+    } else if (this.root === null) {
+      this.root = check;
+    }
+
+    this._stack.push(check);
+    return check;
+  }
+
+  /**
+   * Ends the given check, and the terms in it which did not finish because of an error.
+   * @param check the check.
+   * @param result the result of the check.
+   */
+  public endCheck(check: SPFTraceCheck, result: SPFResult): void {
+    for (
+      let node: SPFTraceCheck | SPFTraceTerm | undefined = this._stack.pop();
+      node !== undefined;
+      node = node !== check ? this._stack.pop() : undefined
+    ) {
+      node.duration ??= Date.now() - node.start;
+    }
+
+    check.result = result.type;
+    check.comment = result.comment;
+  }
+
+  /**
+   * Sets the record of the current check.
+   * @param record the fetched record.
+   */
+  public record(record: string): void {
+    const check: SPFTraceCheck | undefined = this._stack
+      .slice()
+      .reverse()
+      .find(
+        (node: SPFTraceCheck | SPFTraceTerm): boolean =>
+          node instanceof SPFTraceCheck
+      ) as SPFTraceCheck | undefined;
+
+    if (check !== undefined) {
+      check.record = record;
+    }
+  }
+
+  /**
+   * Begins the evaluation of a term, in the current check.
+   * @param term the term, as in the record.
+   * @param qualifier the explicit qualifier, null for modifiers.
+   * @returns the term.
+   */
+  public beginTerm(term: string, qualifier: string | null): SPFTraceTerm {
+    const traceTerm: SPFTraceTerm = new SPFTraceTerm(term, qualifier);
+
+    const parent: SPFTraceCheck | SPFTraceTerm | undefined = this._top();
+    if (parent instanceof SPFTraceCheck) {
+      parent.terms.push(traceTerm);
+    }
+
+    this._stack.push(traceTerm);
+    return traceTerm;
+  }
+
+  /**
+   * Ends the evaluation of the given term.
+   * @param term the term.
+   * @param match if the term matched.
+   * @param reason the reason of the (non) match.
+   */
+  public endTerm(
+    term: SPFTraceTerm,
+    match: boolean,
+    reason: string | null
+  ): void {
+    if (this._top() === term) {
+      this._stack.pop();
+    }
+
+    term.match = match;
+    term.reason = reason;
+    term.duration = Date.now() - term.start;
+  }
+
+  /**
+   * Sets the expanded domain of the current term.
+   * @param domain the expanded domain.
+   */
+  public expanded(domain: string): void {
+    const term: SPFTraceCheck | SPFTraceTerm | undefined = this._top();
+    if (term instanceof SPFTraceTerm) {
+      term.domain = domain;
+    }
+  }
+
+  /**
+   * Adds a performed query to the current term or check.
+   * @param query the query.
+   */
+  public query(query: ISPFTraceQuery): void {
+    this._top()?.queries.push(query);
+  }
+
+  /**
+   * Gets the innermost check or term.
+   * @returns the check or term, undefined if none.
+   * @protected
+   */
+  protected _top(): SPFTraceCheck | SPFTraceTerm | undefined {
+    return this._stack[this._stack.length - 1];
+  }
+}
@@ -1,33 +1,425 @@
 import winston from "winston";
-import { ISPFContext } from "./SPFContext";
+import { SPFCheckedIdentity } from "./SPFCheckedIdentity";
+import { ISPFCheckedContext, ISPFContext } from "./SPFContext";
 import {
+  SPFAllMechanism,
+  SPFDirective,
   SPFDirectiveQualifier,
+  SPFIPv4Mechanism,
+  SPFIPv6Mechanism,
   SPFMechanism,
   SPFMechanismResult,
+  spf_directive_qualifier_encode,
 } from "./SPFDirectives";
-import { SPFNetworkingError, SPFSyntacticalError } from "./SPFErrors";
+import {
+  SPFIncludeError,
+  SPFLimitError,
+  SPFLocalPolicyError,
+  SPFMultipleRecordsError,
+  SPFNetworkingError,
+  SPFSyntacticalError,
+} from "./SPFErrors";
+import {
+  SPFEvaluation,
+  SPF_DEFAULT_QUERY_TIMEOUT,
+  SPF_DEFAULT_TOTAL_TIMEOUT,
+} from "./SPFEvaluation";
 import { SPFExplainRecord } from "./SPFExplainRecord";
+import { ISPFCache, SPFCachingResolver, SPFLRUCache } from "./SPFCache";
+import { ISPFLocalPolicy, SPFLocalPolicyRule } from "./SPFLocalPolicy";
 import { SPFExplainModifier, SPFRedirectModifier } from "./SPFModifiers";
 import { SPFRecord } from "./SPFRecord";
+import { ISPFResolver, SPFDNSResolver, spf_domain_within } from "./SPFResolver";
 import { SPFResult, SPFResultType } from "./SPFResult";
+import { SPFTraceCheck, SPFTracer, SPFTraceTerm } from "./SPFTrace";
+
+export interface ISPFValidationResults {
+  helo: SPFResult; // The result of checking the HELO identity.
+  mailFrom: SPFResult; // The result of checking the MAIL FROM identity.
+}
+
+export interface ISPFValidatorOptions {
+  resolver?: ISPFResolver; // The resolver used for all DNS lookups, defaults to Node's dns module.
+  queryTimeout?: number; // Milliseconds a single DNS query may take, defaults to 5 seconds.
+  totalTimeout?: number; // Milliseconds the check of a single identity may take, defaults to 20 seconds.
+  trace?: boolean; // If the results should contain the trace of the evaluation, defaults to false.
+  cache?: ISPFCache; // Caches the DNS answers of the resolver, share it between validators.
+  recordCache?: SPFLRUCache; // Caches the parsed records by their text, share it between validators.
+  localPolicy?: ISPFLocalPolicy; // The site policy, applied on top of the published records.
+}
 
 export class SPFValidator {
+  /**
+   * The resolver used for all DNS lookups.
+   */
+  public readonly resolver: ISPFResolver;
+
+  /**
+   * The parsed trusted networks of the local policy.
+   */
+  protected readonly _trustedNetworks: SPFMechanism[];
+
+  /**
+   * The parsed best guess record of the local policy, null if there is none.
+   */
+  protected readonly _bestGuess: SPFRecord | null;
+
   /**
    * Constructs a new SPF validator.
    * @param context the context.
    * @param logger the possible logger.
+   * @param options the validator options.
+   * @throws SPFLocalPolicyError if the local policy is invalid.
    */
   public constructor(
     public readonly context: ISPFContext,
-    public readonly logger: winston.Logger | undefined = undefined
-  ) {}
+    public readonly logger: winston.Logger | undefined = undefined,
+    public readonly options: ISPFValidatorOptions = {}
+  ) {
+    const resolver: ISPFResolver = options.resolver ?? new SPFDNSResolver();
+    this.resolver =
+      options.cache !== undefined
+        ? new SPFCachingResolver(resolver, options.cache)
+        : resolver;
+
+    // Parses the local policy once, so a misconfiguration is noticed here.
+    const policy: ISPFLocalPolicy = options.localPolicy ?? {};
+    this._trustedNetworks = (policy.trustedNetworks ?? []).map(
+      (network: string): SPFMechanism =>
+        SPFValidator._parseLocalPolicy(
+          `trusted network ${network}`,
+          (): SPFMechanism =>
+            (network.includes(":") ? SPFIPv6Mechanism : SPFIPv4Mechanism).parse(
+              network
+            )
+        )
+    );
+    this._bestGuess =
+      policy.bestGuess !== undefined
+        ? SPFValidator._parseLocalPolicy(
+            `best guess record ${policy.bestGuess}`,
+            (): SPFRecord => SPFRecord.decode(policy.bestGuess!)
+          )
+        : null;
+  }
+
+  /**
+   * Parses a part of the local policy.
+   * @param description the description of the part (for the error message).
+   * @param parse parses the part.
+   * @returns the parsed part.
+   * @throws SPFLocalPolicyError if the part is invalid.
+   * @protected
+   */
+  protected static _parseLocalPolicy<T>(
+    description: string,
+    parse: () => T
+  ): T {
+    try {
+      return parse();
+    } catch (e) {
+      if (!(e instanceof SPFSyntacticalError)) {
+        throw e;
+      }
+
+      throw new SPFLocalPolicyError(
+        `Invalid ${description} in local policy: ${e.message}`
+      );
+    }
+  }
+
+  /**
+   * Validates the SPF Record of the MAIL FROM identity, falls back to
+   *  postmaster@<helo> when MAIL FROM is null.
+   * @param hostname the domain to check the SPF for.
+   */
+  public async validate(hostname?: string): Promise<SPFResult> {
+    const context: ISPFCheckedContext = this._checkedContext(
+      SPFCheckedIdentity.MailFrom
+    );
+
+    return this._check(hostname ?? context.sender.emailDomain, context);
+  }
+
+  /**
+   * Validates the SPF Record of the MAIL FROM identity, falls back to
+   *  postmaster@<helo> when MAIL FROM is null.
+   * @returns the result.
+   */
+  public async validateMailFrom(): Promise<SPFResult> {
+    return this.validate();
+  }
+
+  /**
+   * Validates the SPF Record of the HELO identity.
+   * @returns the result.
+   */
+  public async validateHelo(): Promise<SPFResult> {
+    const context: ISPFCheckedContext = this._checkedContext(
+      SPFCheckedIdentity.Helo
+    );
+
+    // [RFC7208] The HELO identity can only be checked if it is a domain name,
+    //  and not for example an address literal.
+    const hostname: string = context.client.greetHostname;
+    if (!/^(?=.*[a-z])[a-z0-9-]+(\.[a-z0-9-]+)+\.?$/i.test(hostname)) {
+      return new SPFResult(
+        SPFResultType.None,
+        context,
+        null,
+        `HELO ${hostname} is not a fully qualified domain name`
+      );
+    }
+
+    return this._check(hostname, context);
+  }
+
+  /**
+   * Validates both the HELO and the MAIL FROM identity.
+   * @returns the results of both identities.
+   */
+  public async validateAll(): Promise<ISPFValidationResults> {
+    const helo: SPFResult = await this.validateHelo();
+    const mailFrom: SPFResult = await this.validateMailFrom();
+
+    return { helo, mailFrom };
+  }
+
+  /**
+   * Constructs the context of the given checked identity.
+   * @param identity the checked identity.
+   * @returns the checked context.
+   * @protected
+   */
+  protected _checkedContext(identity: SPFCheckedIdentity): ISPFCheckedContext {
+    // [RFC7208] When checking HELO, or when MAIL FROM is null, the sender in the
+    //  macro's becomes the local-part "postmaster" with the HELO domain.
+    if (identity === SPFCheckedIdentity.Helo || this.context.message === null) {
+      return {
+        ...this.context,
+        sender: {
+          emailUsername: "postmaster",
+          emailDomain: this.context.client.greetHostname,
+        },
+        identity,
+      };
+    }
+
+    return { ...this.context, sender: this.context.message, identity };
+  }
+
+  /**
+   * Constructs a new evaluation of the given checked context, starting the timeouts.
+   * @param context the checked context.
+   * @returns the evaluation.
+   * @protected
+   */
+  protected _evaluation(context: ISPFCheckedContext): SPFEvaluation {
+    return new SPFEvaluation(
+      context,
+      this,
+      this.options.queryTimeout ?? SPF_DEFAULT_QUERY_TIMEOUT,
+      Date.now() + (this.options.totalTimeout ?? SPF_DEFAULT_TOTAL_TIMEOUT),
+      this.options.trace ? new SPFTracer() : null,
+      this.options.recordCache ?? null
+    );
+  }
+
+  /**
+   * Checks the SPF Record of the given domain, applying the local policy: trusted
+   *  networks pass without checking, domains without record are checked against
+   *  the best guess record, and trusted forwarders pass unless the check failed
+   *  with an error.
+   * @param hostname the domain to check the SPF for.
+   * @param context the checked context.
+   * @returns the result, with the rule and the published verdict if the local policy applied.
+   * @protected
+   */
+  protected async _check(
+    hostname: string,
+    context: ISPFCheckedContext
+  ): Promise<SPFResult> {
+    const policy: ISPFLocalPolicy = this.options.localPolicy ?? {};
+    const evaluation: SPFEvaluation = this._evaluation(context);
+
+    // Our own relays always pass, without looking at the record.
+    for (const network of this._trustedNetworks) {
+      const match: SPFMechanismResult = await network.match(
+        context,
+        evaluation,
+        hostname
+      );
+      if (match.match) {
+        const trusted: SPFResult = new SPFResult(
+          SPFResultType.Pass,
+          context,
+          null,
+          match.reason,
+          null,
+          SPFLocalPolicyRule.TrustedNetwork
+        );
+        trusted.domain = hostname;
+
+        return trusted;
+      }
+    }
+
+    let result: SPFResult = await this._traced(hostname, evaluation);
+
+    // Domains without record are checked against the best guess record, with
+    //  its own evaluation.
+    if (result.type === SPFResultType.None && this._bestGuess !== null) {
+      const guess: SPFResult = await this._traced(
+        hostname,
+        this._evaluation(context),
+        this._bestGuess
+      );
+
+      const published: SPFResult = result;
+      result = new SPFResult(
+        guess.type,
+        context,
+        guess.mechanism,
+        guess.comment,
+        guess.explaination,
+        SPFLocalPolicyRule.BestGuess,
+        published
+      );
+      result.trace = guess.trace;
+    }
+
+    // Trusted forwarders pass, if the client is one of their validated names,
+    //  but only instead of a verdict: errors of the domain are kept.
+    if (
+      [
+        SPFResultType.Fail,
+        SPFResultType.SoftFail,
+        SPFResultType.Neutral,
+        SPFResultType.None,
+      ].includes(result.type) &&
+      (policy.trustedForwarders ?? []).length > 0
+    ) {
+      const forwarder: string | null = await this._trustedForwarder(
+        policy.trustedForwarders!,
+        evaluation
+      );
+      if (forwarder !== null) {
+        const published: SPFResult = result.published ?? result;
+        result = new SPFResult(
+          SPFResultType.Pass,
+          context,
+          null,
+          `${context.client.ipAddress.encode()} is the trusted forwarder ${forwarder}`,
+          null,
+          SPFLocalPolicyRule.TrustedForwarder,
+          published
+        );
+        result.trace = published.trace;
+      }
+    }
+
+    result.domain = hostname;
+
+    return result;
+  }
+
+  /**
+   * Gets the validated name of the client within one of the trusted forwarders,
+   *  counting the lookup as part of the given evaluation.
+   * @param forwarders the domains of the trusted forwarders.
+   * @param evaluation the evaluation of the checked domain.
+   * @returns the validated name, null if there is none (or the lookup failed).
+   * @protected
+   */
+  protected async _trustedForwarder(
+    forwarders: string[],
+    evaluation: SPFEvaluation
+  ): Promise<string | null> {
+    try {
+      evaluation.countLookup("trusted forwarders");
+      const names: string[] = await evaluation.validatedNames(
+        evaluation.context.client.ipAddress
+      );
+
+      return (
+        names.find((name: string): boolean =>
+          forwarders.some((domain: string): boolean =>
+            spf_domain_within(name, domain)
+          )
+        ) ?? null
+      );
+    } catch (e) {
+      if (!(e instanceof SPFNetworkingError) && !(e instanceof SPFLimitError)) {
+        throw e;
+      }
+
+      this.logger?.debug(`Could not check the trusted forwarders: ${e}`);
+      return null;
+    }
+  }
+
+  /**
+   * Checks the SPF Record of the given domain, and attaches the trace to the result.
+   * @param hostname the domain to check the SPF for.
+   * @param evaluation the new evaluation.
+   * @param override the record to evaluate instead of the published one, if any.
+   * @returns the result, with the trace if tracing.
+   * @protected
+   */
+  protected async _traced(
+    hostname: string,
+    evaluation: SPFEvaluation,
+    override: SPFRecord | null = null
+  ): Promise<SPFResult> {
+    const result: SPFResult = await this.checkHost(
+      hostname,
+      evaluation,
+      override
+    );
+    result.trace = evaluation.tracer?.root ?? null;
+
+    return result;
+  }
 
   /**
-   * Validates the SPF Record.
+   * Checks the SPF Record of the given domain, as part of the given evaluation.
    * @param hostname the domain to check the SPF for.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param override the record to evaluate instead of the published one, if any.
    */
-  public async validate(
-    hostname: string = this.context.message.emailDomain
+  public async checkHost(
+    hostname: string,
+    evaluation: SPFEvaluation,
+    override: SPFRecord | null = null
+  ): Promise<SPFResult> {
+    const trace: SPFTraceCheck | undefined =
+      evaluation.tracer?.beginCheck(hostname);
+
+    const result: SPFResult = await this._checkHost(
+      hostname,
+      evaluation,
+      override
+    );
+
+    if (trace !== undefined) {
+      evaluation.tracer!.endCheck(trace, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Checks the SPF Record of the given domain, without tracing the check itself.
+   * @param hostname the domain to check the SPF for.
+   * @param evaluation the evaluation, shared by the whole evaluation tree.
+   * @param override the record to evaluate instead of the published one, if any.
+   * @returns the result.
+   * @protected
+   */
+  protected async _checkHost(
+    hostname: string,
+    evaluation: SPFEvaluation,
+    override: SPFRecord | null
   ): Promise<SPFResult> {
     try {
       /////////////////////////////////////////////////
@@ -36,50 +428,33 @@ export class SPFValidator {
 
       this.logger?.debug(`Resolving record for: ${hostname}`);
 
-      // Gets the SPF Record.
-      const record: SPFRecord | null = await SPFRecord.resolve(
-        hostname,
-        this.context,
-        this.logger
-      );
+      // Gets the SPF Record, unless another one is evaluated instead.
+      const record: SPFRecord | null =
+        override ??
+        (await SPFRecord.resolve(
+          hostname,
+          evaluation,
+          this.logger,
+          evaluation.recordCache
+        ));
 
       // Makes sure that the record is found.
       if (record === null) {
         return new SPFResult(
           SPFResultType.None,
-          this.context,
+          evaluation.context,
           null,
           `could not resolve ${hostname}`
         );
       }
 
+      evaluation.tracer?.record(record.encode());
+
       // Logs the record basic information.
       this.logger?.debug(
         `Record has ${record.modifiers.length} modifiers, and ${record.directives.length} directives.`
       );
 
-      /////////////////////////////////////////////////
-      // Handle modifiers.
-      /////////////////////////////////////////////////
-
-      // Checks some of the modifiers, will be important later in the process.
-      if (record.modifiers.length !== 0) {
-        // Checks if there is a redirect modifier, if so we want to recurse, and use that resuilt.
-        const redirectModifier: SPFRedirectModifier | null =
-          record.getModifierOfType<SPFRedirectModifier>(SPFRedirectModifier);
-        if (redirectModifier !== null) {
-          this.logger?.debug(
-            `Found redirect modifier, redirecting to: "${
-              redirectModifier.hostname
-            }", ignoring ${record.modifiers.length - 1} modifiers and ${
-              record.directives.length
-            } directives.`
-          );
-
-          return this.validate(redirectModifier.hostname);
-        }
-      }
-
       /////////////////////////////////////////////////
       // Matches the mechanisms inside the directives.
       /////////////////////////////////////////////////
@@ -91,9 +466,22 @@ export class SPFValidator {
         const mechanism: SPFMechanism = directive.mechanism;
 
         // Calls the validate method inside the mechanism, and stores the result.
+        const term: SPFTraceTerm | undefined = evaluation.tracer?.beginTerm(
+          directive.toString(),
+          spf_directive_qualifier_encode(qualifier, true)
+        );
         const mechanismResult: SPFMechanismResult = await mechanism.match(
-          this.context
+          evaluation.context,
+          evaluation,
+          hostname
         );
+        if (term !== undefined) {
+          evaluation.tracer!.endTerm(
+            term,
+            mechanismResult.match,
+            mechanismResult.reason
+          );
+        }
 
         // Performs a debug log if verbosity specified.
         this.logger?.debug(
@@ -124,18 +512,41 @@ export class SPFValidator {
                   `Failed, also found explain modifier with hostname: ${explainModifier.hostname}, resolving...`
                 );
 
-                // Resolves the explain record.
-                const spfExplainRecord: SPFExplainRecord = await SPFExplainRecord.resolve(explainModifier.hostname, this.context);
-                this.logger?.debug(`Resolved explaination: '${spfExplainRecord.contents}'`);
+                // Resolves the explain record, if that fails we proceed without
+                //  explanation [RFC7208 6.2].
+                try {
+                  const spfExplainRecord: SPFExplainRecord =
+                    await SPFExplainRecord.resolve(
+                      await evaluation.expand(
+                        explainModifier.hostname,
+                        hostname
+                      ),
+                      evaluation,
+                      hostname
+                    );
+                  this.logger?.debug(
+                    `Resolved explaination: '${spfExplainRecord.contents}'`
+                  );
+
+                  // Sets the explaination.
+                  explaination = spfExplainRecord.contents;
+                } catch (e) {
+                  if (
+                    !(e instanceof SPFNetworkingError) &&
+                    !(e instanceof SPFSyntacticalError) &&
+                    !(e instanceof SPFLimitError)
+                  ) {
+                    throw e;
+                  }
 
-                // Sets the explaination.
-                explaination = spfExplainRecord.contents;
+                  this.logger?.debug(`Could not resolve explaination: ${e}`);
+                }
               }
 
               // Returns the result.
               return new SPFResult(
                 SPFResultType.Fail,
-                this.context,
+                evaluation.context,
                 mechanism,
                 mechanismResult.reason,
                 explaination
@@ -153,7 +564,7 @@ export class SPFValidator {
               );
               return new SPFResult(
                 SPFResultType.Pass,
-                this.context,
+                evaluation.context,
                 mechanism,
                 mechanismResult.reason
               );
@@ -170,7 +581,7 @@ export class SPFValidator {
               );
               return new SPFResult(
                 SPFResultType.Neutral,
-                this.context,
+                evaluation.context,
                 mechanism,
                 mechanismResult.reason
               );
@@ -187,7 +598,7 @@ export class SPFValidator {
               );
               return new SPFResult(
                 SPFResultType.SoftFail,
-                this.context,
+                evaluation.context,
                 mechanism,
                 mechanismResult.reason
               );
@@ -202,10 +613,61 @@ export class SPFValidator {
         }
       }
 
-      // Nothing matched, nothing declided.. We don't know what to do.
+      /////////////////////////////////////////////////
+      // Handle the redirect modifier.
+      /////////////////////////////////////////////////
+
+      // Nothing matched, follows the possible redirect, which is ignored if
+      //  there is an all mechanism [RFC7208 6.1].
+      const redirectModifier: SPFRedirectModifier | null =
+        record.getModifierOfType<SPFRedirectModifier>(SPFRedirectModifier);
+      if (
+        redirectModifier !== null &&
+        !record.directives.some(
+          (directive: SPFDirective): boolean =>
+            directive.mechanism instanceof SPFAllMechanism
+        )
+      ) {
+        this.logger?.debug(
+          `No directives matched, redirecting to: "${redirectModifier.hostname}"`
+        );
+
+        // Counts the lookup of the redirected record.
+        const term: SPFTraceTerm | undefined = evaluation.tracer?.beginTerm(
+          redirectModifier.toString(),
+          null
+        );
+        evaluation.countLookup(redirectModifier.toString());
+
+        // Checks the redirected domain, as if it were the current one.
+        const target: string = await evaluation.expand(
+          redirectModifier.hostname,
+          hostname
+        );
+        const result: SPFResult = await this.checkHost(target, evaluation);
+        if (term !== undefined) {
+          evaluation.tracer!.endTerm(term, true, `resulted in ${result.type}`);
+        }
+
+        // [RFC7208] A redirect to a domain without record is a permerror.
+        if (result.type === SPFResultType.None) {
+          return new SPFResult(
+            SPFResultType.PermError,
+            evaluation.context,
+            null,
+            `${redirectModifier.toString()} resulted in ${result.type}: ${
+              result.comment
+            }`
+          );
+        }
+
+        return result;
+      }
+
+      // Nothing matched, the default result is neutral [RFC7208 4.7].
       return new SPFResult(
-        SPFResultType.None,
-        this.context,
+        SPFResultType.Neutral,
+        evaluation.context,
         null,
         "No matching directives"
       );
@@ -215,7 +677,19 @@ export class SPFValidator {
         const e: SPFSyntacticalError = _e as SPFSyntacticalError;
         return new SPFResult(
           SPFResultType.PermError,
-          this.context,
+          evaluation.context,
+          null,
+          e.message
+        );
+      } else if (
+        _e instanceof SPFLimitError ||
+        _e instanceof SPFIncludeError ||
+        _e instanceof SPFMultipleRecordsError
+      ) {
+        const e: Error = _e as Error;
+        return new SPFResult(
+          SPFResultType.PermError,
+          evaluation.context,
           null,
           e.message
         );
@@ -223,7 +697,7 @@ export class SPFValidator {
         const e: SPFSyntacticalError = _e as SPFSyntacticalError;
         return new SPFResult(
           SPFResultType.TempError,
-          this.context,
+          evaluation.context,
           null,
           e.message
         );
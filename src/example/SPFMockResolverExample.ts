@@ -0,0 +1,43 @@
+import { IPv4Address } from "llibipaddress";
+import { SPFValidator } from "../SPFValidator";
+import { SPFMockFailure, SPFMockResolver } from "../SPFMockResolver";
+
+// Creates the resolver, which answers from the zone below instead of the network.
+const resolver = SPFMockResolver.fromZoneText(`
+$ORIGIN example.com.
+@       IN TXT  "v=spf1 mx include:_spf.example.com -all"
+@       IN MX   10 mail
+mail    IN A    192.0.2.10
+_spf    IN TXT  "v=spf1 ip4:198.51.100.0/24 ~all"
+`);
+
+// Makes the lookup of the include fail, to see the temperror (the client is not
+//  one of the mail exchanges, so the include is evaluated).
+resolver.fail("_spf.example.com", SPFMockFailure.ServFail);
+
+(async () => {
+  try {
+    const result = await new SPFValidator(
+      {
+        message: {
+          emailDomain: "example.com",
+          emailUsername: "luke.rieff",
+        },
+        client: {
+          greetHostname: "mail.example.com",
+          ipAddress: IPv4Address.decode("198.51.100.7"),
+        },
+        server: {
+          hostname: "mx.example.org",
+        },
+      },
+      undefined,
+      { resolver }
+    ).validate();
+
+    console.log(result.asHeader().join(": "));
+    console.log(resolver.queries);
+  } catch (e) {
+    console.log(e);
+  }
+})();
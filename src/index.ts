@@ -1,24 +1,97 @@
 import { SPFCheckedIdentity } from "./SPFCheckedIdentity";
-import { SPFValidator } from "./SPFValidator";
-import { SPFResult, SPFResultType } from "./SPFResult";
+import {
+  SPFValidator,
+  ISPFValidatorOptions,
+  ISPFValidationResults,
+} from "./SPFValidator";
+import {
+  SPFResult,
+  SPFResultType,
+  RECEIVED_SPF_HEADER_KEY,
+  AUTHENTICATION_RESULTS_HEADER_KEY,
+  spf_header_value_encode,
+  spf_header_pvalue_encode,
+  spf_header_comment_encode,
+  spf_header_fold,
+} from "./SPFResult";
 import {
   ISPFContext,
   ISPFContextClient,
   ISPFContextMessage,
   ISPFContextServer,
+  ISPFCheckedContext,
 } from "./SPFContext";
-import { SPFRecord } from "./SPFRecord";
+import {
+  SPFRecord,
+  SPF_RECORD_VERSION,
+  SPF_TXT_STRING_MAX_LENGTH,
+} from "./SPFRecord";
+import { SPFRecordBuilder } from "./SPFRecordBuilder";
+import {
+  SPFRecordParser,
+  SPFTerm,
+  SPFParseError,
+  SPFParseErrorCode,
+} from "./SPFRecordParser";
+import {
+  SPFRecordLinter,
+  SPFLintDiagnostic,
+  SPFLintSeverity,
+  SPFLintCode,
+  SPF_RECORD_RECOMMENDED_MAX_LENGTH,
+} from "./SPFRecordLinter";
 import { SPFExplainRecord } from "./SPFExplainRecord";
 import {
   SPFModifier,
   SPFRedirectModifier,
   SPFExplainModifier,
+  SPFUnknownModifier,
 } from "./SPFModifiers";
-import { SPFSyntacticalError, SPFNetworkingError } from "./SPFErrors";
+import {
+  SPFSyntacticalError,
+  SPFNetworkingError,
+  SPFTimeoutError,
+  SPFLimitError,
+  SPFIncludeError,
+  SPFMultipleRecordsError,
+  SPFHeaderError,
+  SPFLocalPolicyError,
+  SPFLintError,
+} from "./SPFErrors";
+import { SPFHeaderParser, SPFParsedResult } from "./SPFHeaderParser";
+import {
+  ISPFLocalPolicy,
+  SPFLocalPolicyRule,
+  SPF_LOCAL_POLICY_DEFAULT_BEST_GUESS,
+} from "./SPFLocalPolicy";
+import {
+  SPFPolicy,
+  SPFPolicyAction,
+  SPFPolicyDecision,
+  ISPFPolicyOptions,
+  SPF_POLICY_DEFAULT_ACTIONS,
+  SPF_POLICY_DEFAULT_EXPLANATION,
+  SPF_POLICY_DEFAULT_LINE_LENGTH,
+} from "./SPFPolicy";
+import {
+  SPFEvaluation,
+  SPF_MAX_DNS_LOOKUPS,
+  SPF_MAX_VOID_LOOKUPS,
+  SPF_MAX_NAME_LOOKUPS,
+  SPF_DEFAULT_QUERY_TIMEOUT,
+  SPF_DEFAULT_TOTAL_TIMEOUT,
+} from "./SPFEvaluation";
+import {
+  SPFTracer,
+  SPFTraceCheck,
+  SPFTraceTerm,
+  ISPFTraceQuery,
+} from "./SPFTrace";
 import {
   SPFDirectiveMechanismKeywords,
   SPFDirectiveQualifier,
   spf_directive_qualifier_parse,
+  spf_directive_qualifier_encode,
   SPFMechanismResult,
   SPFMechanism,
   SPFAllMechanism,
@@ -31,28 +104,108 @@ import {
   SPFExistsMechanism,
   spf_parse_mechanism,
   SPFDirective,
+  SPFDualCIDRLength,
 } from "./SPFDirectives";
-import { SPFMacroProcessor } from "./SPFMacroProcessor";
+import {
+  SPFMacroProcessor,
+  ISPFMacroExpandOptions,
+  SPF_MACRO_MAX_DOMAIN_LENGTH,
+} from "./SPFMacroProcessor";
+import {
+  ISPFResolver,
+  SPFDNSResolver,
+  spf_address_reverse_name,
+  spf_ipv6_expand,
+  spf_domain_within,
+  spf_resolver_error_is_void,
+} from "./SPFResolver";
+import {
+  ISPFCache,
+  SPFLRUCache,
+  SPFCachingResolver,
+  ISPFCachingResolverOptions,
+  SPF_CACHE_DEFAULT_MAX_ENTRIES,
+  SPF_CACHE_DEFAULT_TTL,
+  SPF_CACHE_DEFAULT_NEGATIVE_TTL,
+  SPF_CACHE_DEFAULT_MAX_TTL,
+} from "./SPFCache";
+import {
+  SPFMockResolver,
+  SPFMockRecordType,
+  SPFMockFailure,
+  ISPFMockZone,
+  ISPFMockZoneEntry,
+} from "./SPFMockResolver";
 
 export {
   SPFCheckedIdentity,
   SPFValidator,
   SPFResult,
   SPFResultType,
+  RECEIVED_SPF_HEADER_KEY,
+  AUTHENTICATION_RESULTS_HEADER_KEY,
+  spf_header_value_encode,
+  spf_header_pvalue_encode,
+  spf_header_comment_encode,
+  spf_header_fold,
   ISPFContext,
   SPFRecord,
+  SPF_RECORD_VERSION,
+  SPF_TXT_STRING_MAX_LENGTH,
+  SPFRecordBuilder,
+  SPFRecordParser,
+  SPFTerm,
+  SPFParseError,
+  SPFParseErrorCode,
+  SPFRecordLinter,
+  SPFLintDiagnostic,
+  SPFLintSeverity,
+  SPFLintCode,
+  SPF_RECORD_RECOMMENDED_MAX_LENGTH,
   SPFExplainRecord,
   SPFModifier,
   SPFRedirectModifier,
   SPFExplainModifier,
+  SPFUnknownModifier,
   SPFSyntacticalError,
   SPFNetworkingError,
+  SPFTimeoutError,
+  SPFLimitError,
+  SPFIncludeError,
+  SPFMultipleRecordsError,
+  SPFHeaderError,
+  SPFLocalPolicyError,
+  SPFLintError,
+  SPFHeaderParser,
+  SPFParsedResult,
+  SPFPolicy,
+  SPFPolicyAction,
+  SPFPolicyDecision,
+  ISPFPolicyOptions,
+  SPF_POLICY_DEFAULT_ACTIONS,
+  SPF_POLICY_DEFAULT_EXPLANATION,
+  SPF_POLICY_DEFAULT_LINE_LENGTH,
+  ISPFLocalPolicy,
+  SPFLocalPolicyRule,
+  SPF_LOCAL_POLICY_DEFAULT_BEST_GUESS,
+  SPFEvaluation,
+  SPF_MAX_DNS_LOOKUPS,
+  SPF_MAX_VOID_LOOKUPS,
+  SPF_MAX_NAME_LOOKUPS,
+  SPF_DEFAULT_QUERY_TIMEOUT,
+  SPF_DEFAULT_TOTAL_TIMEOUT,
+  SPFTracer,
+  SPFTraceCheck,
+  SPFTraceTerm,
+  ISPFTraceQuery,
   ISPFContextClient,
   ISPFContextMessage,
   ISPFContextServer,
+  ISPFCheckedContext,
   SPFDirectiveMechanismKeywords,
   SPFDirectiveQualifier,
   spf_directive_qualifier_parse,
+  spf_directive_qualifier_encode,
   SPFMechanismResult,
   SPFMechanism,
   SPFAllMechanism,
@@ -65,5 +218,29 @@ export {
   SPFExistsMechanism,
   spf_parse_mechanism,
   SPFDirective,
+  SPFDualCIDRLength,
   SPFMacroProcessor,
+  ISPFMacroExpandOptions,
+  SPF_MACRO_MAX_DOMAIN_LENGTH,
+  ISPFResolver,
+  SPFDNSResolver,
+  spf_address_reverse_name,
+  spf_ipv6_expand,
+  spf_domain_within,
+  spf_resolver_error_is_void,
+  ISPFValidatorOptions,
+  ISPFValidationResults,
+  ISPFCache,
+  SPFLRUCache,
+  SPFCachingResolver,
+  ISPFCachingResolverOptions,
+  SPF_CACHE_DEFAULT_MAX_ENTRIES,
+  SPF_CACHE_DEFAULT_TTL,
+  SPF_CACHE_DEFAULT_NEGATIVE_TTL,
+  SPF_CACHE_DEFAULT_MAX_TTL,
+  SPFMockResolver,
+  SPFMockRecordType,
+  SPFMockFailure,
+  ISPFMockZone,
+  ISPFMockZoneEntry,
 };
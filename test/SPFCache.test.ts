@@ -0,0 +1,144 @@
+import assert from "assert";
+import dns from "dns";
+import { SPFCachingResolver, SPFLRUCache } from "../src/SPFCache";
+import { SPFMockFailure, SPFMockResolver } from "../src/SPFMockResolver";
+import { ISPFResolver } from "../src/SPFResolver";
+import { SPFResultType } from "../src/SPFResult";
+import { SPFValidator } from "../src/SPFValidator";
+import { spf_test_context } from "./SPFTestContext";
+
+describe("SPFLRUCache", (): void => {
+  it("gives the values which did not expire", (): void => {
+    const cache: SPFLRUCache = new SPFLRUCache();
+    cache.set("a", 1, 60);
+    cache.set("b", 2, 0);
+    cache.set("c", 3);
+
+    assert.strictEqual(cache.get("a"), 1);
+    assert.strictEqual(cache.get("b"), undefined);
+    assert.strictEqual(cache.get("c"), 3);
+  });
+
+  it("evicts the least recently used entry", (): void => {
+    const cache: SPFLRUCache = new SPFLRUCache(2);
+    cache.set("a", 1);
+    cache.set("b", 2);
+    cache.get("a");
+    cache.set("c", 3);
+
+    assert.strictEqual(cache.size, 2);
+    assert.strictEqual(cache.get("a"), 1);
+    assert.strictEqual(cache.get("b"), undefined);
+  });
+});
+
+describe("SPFCachingResolver", (): void => {
+  /**
+   * Gets the code of the error the given promise rejects with.
+   * @param promise the promise.
+   * @returns the error code.
+   */
+  const code = async (promise: Promise<unknown>): Promise<string> => {
+    try {
+      await promise;
+    } catch (e) {
+      return (e as NodeJS.ErrnoException).code!;
+    }
+
+    return assert.fail("The lookup did not fail");
+  };
+
+  /**
+   * Constructs a new mock resolver, with a broken name.
+   * @returns the mock resolver.
+   */
+  const mock = (): SPFMockResolver =>
+    SPFMockResolver.fromJSON({
+      "example.com": { txt: ["v=spf1 -all"], a: ["192.0.2.1"] },
+      "broken.example.com": { failure: SPFMockFailure.ServFail },
+    });
+
+  it("answers repeated queries from the cache", async (): Promise<void> => {
+    const resolver: SPFMockResolver = mock();
+    const caching: SPFCachingResolver = new SPFCachingResolver(resolver);
+
+    await caching.resolveTxt("example.com");
+    assert.deepStrictEqual(await caching.resolveTxt("Example.COM."), [
+      ["v=spf1 -all"],
+    ]);
+    assert.strictEqual(resolver.queries.length, 1);
+  });
+
+  it("caches the empty answers", async (): Promise<void> => {
+    const resolver: SPFMockResolver = mock();
+    const caching: SPFCachingResolver = new SPFCachingResolver(resolver);
+
+    assert.strictEqual(
+      await code(caching.resolve4("missing.example.com")),
+      dns.NOTFOUND
+    );
+    assert.strictEqual(
+      await code(caching.resolve4("missing.example.com")),
+      dns.NOTFOUND
+    );
+    assert.strictEqual(resolver.queries.length, 1);
+  });
+
+  it("does not cache failures", async (): Promise<void> => {
+    const resolver: SPFMockResolver = mock();
+    const caching: SPFCachingResolver = new SPFCachingResolver(resolver);
+
+    assert.strictEqual(
+      await code(caching.resolve4("broken.example.com")),
+      dns.SERVFAIL
+    );
+    assert.strictEqual(
+      await code(caching.resolve4("broken.example.com")),
+      dns.SERVFAIL
+    );
+    assert.strictEqual(resolver.queries.length, 2);
+  });
+
+  it("respects the TTL of the records", async (): Promise<void> => {
+    const resolver: SPFMockResolver = mock();
+    const withTtl: ISPFResolver = {
+      resolveTxt: (hostname: string): Promise<string[][]> =>
+        resolver.resolveTxt(hostname),
+      resolve4: (hostname: string): Promise<string[]> =>
+        resolver.resolve4(hostname),
+      resolve4WithTtl: async (hostname: string): Promise<dns.RecordWithTtl[]> =>
+        (await resolver.resolve4(hostname)).map(
+          (address: string): dns.RecordWithTtl => ({ address, ttl: 0 })
+        ),
+      resolve6: (hostname: string): Promise<string[]> =>
+        resolver.resolve6(hostname),
+      resolveMx: (hostname: string): Promise<dns.MxRecord[]> =>
+        resolver.resolveMx(hostname),
+      reverse: (address: string): Promise<string[]> =>
+        resolver.reverse(address),
+    };
+    const caching: SPFCachingResolver = new SPFCachingResolver(withTtl);
+
+    await caching.resolve4("example.com");
+    await caching.resolve4("example.com");
+    assert.strictEqual(resolver.queries.length, 2);
+  });
+
+  it("is shared between validators", async (): Promise<void> => {
+    const resolver: SPFMockResolver = mock();
+    const cache: SPFLRUCache = new SPFLRUCache();
+
+    for (let i: number = 0; i < 2; ++i) {
+      assert.strictEqual(
+        (
+          await new SPFValidator(spf_test_context("192.0.2.1"), undefined, {
+            resolver,
+            cache,
+          }).validate()
+        ).type,
+        SPFResultType.Fail
+      );
+    }
+    assert.strictEqual(resolver.queries.length, 1);
+  });
+});
@@ -0,0 +1,96 @@
+import assert from "assert";
+import { SPFAMechanism, SPFMXMechanism } from "../src/SPFDirectives";
+import { SPFSyntacticalError } from "../src/SPFErrors";
+import { SPFRecord } from "../src/SPFRecord";
+import { SPFParseError, SPFParseErrorCode } from "../src/SPFRecordParser";
+import { SPFMockResolver } from "../src/SPFMockResolver";
+import { SPFResult, SPFResultType } from "../src/SPFResult";
+import { SPFValidator } from "../src/SPFValidator";
+import { spf_test_context } from "./SPFTestContext";
+
+describe("SPFDualCIDRLength", (): void => {
+  /**
+   * Parses the given term as the only directive of a record.
+   * @param term the term.
+   * @returns the mechanism of the directive.
+   */
+  const parse = (term: string): SPFAMechanism | SPFMXMechanism =>
+    SPFRecord.decode(`v=spf1 ${term}`).directives[0].mechanism as
+      | SPFAMechanism
+      | SPFMXMechanism;
+
+  it("parses an IPv4 prefix length directly after the name", (): void => {
+    const mechanism: SPFAMechanism | SPFMXMechanism = parse("a/24");
+
+    assert.strictEqual(mechanism.domain, null);
+    assert.strictEqual(mechanism.cidr.ipv4, 24);
+    assert.strictEqual(mechanism.cidr.ipv6, null);
+  });
+
+  it("parses both prefix lengths after a domain", (): void => {
+    const mechanism: SPFAMechanism | SPFMXMechanism = parse("mx:d/26//64");
+
+    assert.ok(mechanism instanceof SPFMXMechanism);
+    assert.strictEqual(mechanism.domain, "d");
+    assert.strictEqual(mechanism.cidr.ipv4, 26);
+    assert.strictEqual(mechanism.cidr.ipv6, 64);
+    assert.strictEqual(mechanism.toString(), "mx:d/26//64");
+  });
+
+  it("parses a macro with a slash as delimiter", (): void => {
+    const mechanism: SPFAMechanism | SPFMXMechanism = parse(
+      "a:%{d/}.example.com/24"
+    );
+
+    assert.strictEqual(mechanism.domain, "%{d/}.example.com");
+    assert.strictEqual(mechanism.cidr.ipv4, 24);
+  });
+
+  it("rejects an IPv6 prefix length above 128", (): void => {
+    assert.throws(
+      (): SPFRecord => SPFRecord.decode("v=spf1 a//129"),
+      SPFSyntacticalError
+    );
+  });
+
+  it("rejects a prefix length with a leading zero", (): void => {
+    assert.throws(
+      (): SPFRecord => SPFRecord.decode("v=spf1 a/024"),
+      SPFSyntacticalError
+    );
+  });
+
+  it("rejects a slash outside the prefix lengths", (): void => {
+    for (const term of ["a:example.com/", "a:example.com/24/25", "a/24/"]) {
+      assert.throws(
+        (): SPFRecord => SPFRecord.decode(`v=spf1 ${term}`),
+        SPFSyntacticalError,
+        term
+      );
+    }
+  });
+
+  it("rejects an empty domain after the colon", (): void => {
+    assert.throws(
+      (): SPFRecord => SPFRecord.decode("v=spf1 a:/24"),
+      (e: unknown): boolean =>
+        e instanceof SPFParseError &&
+        e.code === SPFParseErrorCode.InvalidMechanism
+    );
+  });
+
+  it("matches the client against the prefix length", async (): Promise<void> => {
+    const resolver: SPFMockResolver = SPFMockResolver.fromZoneText(`
+$ORIGIN example.com.
+@ IN TXT "v=spf1 a/24 -all"
+@ IN A   192.0.2.200
+`);
+    const result: SPFResult = await new SPFValidator(
+      spf_test_context("192.0.2.1"),
+      undefined,
+      { resolver }
+    ).validate();
+
+    assert.strictEqual(result.type, SPFResultType.Pass);
+  });
+});
@@ -0,0 +1,177 @@
+import assert from "assert";
+import { SPFCheckedIdentity } from "../src/SPFCheckedIdentity";
+import { SPFHeaderError } from "../src/SPFErrors";
+import { SPFHeaderParser, SPFParsedResult } from "../src/SPFHeaderParser";
+import { SPFMockResolver } from "../src/SPFMockResolver";
+import { ISPFValidationResults, SPFValidator } from "../src/SPFValidator";
+import { SPFResultType } from "../src/SPFResult";
+import { spf_test_context } from "./SPFTestContext";
+
+/**
+ * Checks both identities of a client against a small zone.
+ * @param ipAddress the encoded address of the client.
+ * @returns the results of both identities.
+ */
+const spf_test_validate_all = (
+  ipAddress: string
+): Promise<ISPFValidationResults> => {
+  const resolver: SPFMockResolver = SPFMockResolver.fromZoneText(`
+$ORIGIN example.com.
+@    IN TXT "v=spf1 ip4:192.0.2.0/24 include:_spf.example.com -all"
+_spf IN TXT "v=spf1 ip4:198.51.100.0/24 foo"
+mail IN TXT "v=spf1 a -all"
+mail IN A   192.0.2.1
+`);
+
+  return new SPFValidator(
+    spf_test_context(ipAddress, 'john "q" doe@example.com'),
+    undefined,
+    { resolver }
+  ).validateAll();
+};
+
+describe("SPFHeaderParser", (): void => {
+  describe("parseReceivedSPF()", (): void => {
+    it("parses the RFC 7208 example", (): void => {
+      const parsed: SPFParsedResult = SPFHeaderParser.parseReceivedSPF(
+        "pass (mybox.example.org: domain of\r\n" +
+          "  myname@example.com designates 192.0.2.1 as permitted sender)\r\n" +
+          "    receiver=mybox.example.org; client-ip=192.0.2.1;\r\n" +
+          '    envelope-from="myname@example.com"; helo=foo.example.com;'
+      );
+
+      assert.strictEqual(parsed.type, SPFResultType.Pass);
+      assert.strictEqual(
+        parsed.comment,
+        "mybox.example.org: domain of  myname@example.com designates 192.0.2.1 as permitted sender"
+      );
+      assert.strictEqual(parsed.receiver, "mybox.example.org");
+      assert.strictEqual(parsed.clientIp, "192.0.2.1");
+      assert.strictEqual(parsed.envelopeFrom, "myname@example.com");
+      assert.strictEqual(parsed.helo, "foo.example.com");
+      assert.strictEqual(parsed.identity, null);
+    });
+
+    it("round-trips a pass", async (): Promise<void> => {
+      const { mailFrom }: ISPFValidationResults = await spf_test_validate_all(
+        "192.0.2.1"
+      );
+      const parsed: SPFParsedResult = SPFHeaderParser.parseReceivedSPF(
+        mailFrom.asHeader()[1]
+      );
+
+      assert.strictEqual(parsed.type, SPFResultType.Pass);
+      assert.strictEqual(
+        parsed.comment,
+        `mx.example.org: ${mailFrom.describe()}`
+      );
+      assert.strictEqual(parsed.clientIp, "192.0.2.1");
+      assert.strictEqual(parsed.envelopeFrom, 'john "q" doe@example.com');
+      assert.strictEqual(parsed.helo, "mail.example.com");
+      assert.strictEqual(parsed.mechanism, "ip4:192.0.2.0/24");
+      assert.strictEqual(parsed.receiver, "mx.example.org");
+      assert.strictEqual(parsed.identity, SPFCheckedIdentity.MailFrom);
+    });
+
+    it("round-trips an error, with its problem", async (): Promise<void> => {
+      const { mailFrom }: ISPFValidationResults = await spf_test_validate_all(
+        "203.0.113.1"
+      );
+      const parsed: SPFParsedResult = SPFHeaderParser.parseReceivedSPF(
+        mailFrom.asHeader()[1]
+      );
+
+      assert.strictEqual(parsed.type, SPFResultType.PermError);
+      assert.strictEqual(parsed.problem, mailFrom.comment);
+      assert.strictEqual(parsed.mechanism, null);
+    });
+
+    it("keeps the MAIL FROM of a HELO result", async (): Promise<void> => {
+      const { helo }: ISPFValidationResults = await spf_test_validate_all(
+        "192.0.2.1"
+      );
+      const parsed: SPFParsedResult = SPFHeaderParser.parseReceivedSPF(
+        helo.asHeader()[1]
+      );
+
+      assert.strictEqual(parsed.type, SPFResultType.Pass);
+      assert.strictEqual(parsed.envelopeFrom, 'john "q" doe@example.com');
+      assert.strictEqual(parsed.identity, SPFCheckedIdentity.Helo);
+    });
+
+    it("rejects invalid headers", (): void => {
+      for (const value of [
+        "",
+        "maybe (comment)",
+        "pass (unterminated",
+        "pass key",
+        'pass key="unterminated',
+      ]) {
+        assert.throws(
+          (): SPFParsedResult => SPFHeaderParser.parseReceivedSPF(value),
+          SPFHeaderError,
+          value
+        );
+      }
+    });
+  });
+
+  describe("parseAuthenticationResults()", (): void => {
+    it("round-trips merged HELO and MAIL FROM results", async (): Promise<void> => {
+      const { helo, mailFrom }: ISPFValidationResults =
+        await spf_test_validate_all("192.0.2.1");
+      const [, value]: [string, string] = mailFrom.asAuthenticationResults(
+        "mx.example.org",
+        helo.asAuthenticationResults("mx.example.org")[1]
+      );
+      const parsed: SPFParsedResult[] =
+        SPFHeaderParser.parseAuthenticationResults(value);
+
+      assert.strictEqual(parsed.length, 2);
+      assert.strictEqual(parsed[0].authservId, "mx.example.org");
+      assert.strictEqual(parsed[0].type, SPFResultType.Pass);
+      assert.strictEqual(parsed[0].helo, "mail.example.com");
+      assert.strictEqual(parsed[0].envelopeFrom, null);
+      assert.strictEqual(parsed[1].type, SPFResultType.Pass);
+      assert.strictEqual(parsed[1].envelopeFrom, 'john "q" doe@example.com');
+      assert.strictEqual(
+        parsed[1].comment,
+        `mx.example.org: ${mailFrom.describe()}`
+      );
+    });
+
+    it("round-trips an error, with its reason", async (): Promise<void> => {
+      const { mailFrom }: ISPFValidationResults = await spf_test_validate_all(
+        "203.0.113.1"
+      );
+      const parsed: SPFParsedResult[] =
+        SPFHeaderParser.parseAuthenticationResults(
+          mailFrom.asAuthenticationResults()[1]
+        );
+
+      assert.strictEqual(parsed.length, 1);
+      assert.strictEqual(parsed[0].type, SPFResultType.PermError);
+      assert.strictEqual(parsed[0].problem, mailFrom.comment);
+    });
+
+    it("skips the results of other methods", (): void => {
+      const parsed: SPFParsedResult[] =
+        SPFHeaderParser.parseAuthenticationResults(
+          "example.com 1; dkim/1=pass (good signature) header.d=example.com;\r\n" +
+            "  spf=fail smtp.mailfrom=example.net; dmarc=none"
+        );
+
+      assert.strictEqual(parsed.length, 1);
+      assert.strictEqual(parsed[0].authservId, "example.com");
+      assert.strictEqual(parsed[0].type, SPFResultType.Fail);
+      assert.strictEqual(parsed[0].envelopeFrom, "example.net");
+    });
+
+    it("parses a header without results", (): void => {
+      assert.deepStrictEqual(
+        SPFHeaderParser.parseAuthenticationResults("example.com; none"),
+        []
+      );
+    });
+  });
+});
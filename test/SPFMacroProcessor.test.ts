@@ -0,0 +1,123 @@
+import assert from "assert";
+import { ISPFCheckedContext } from "../src/SPFContext";
+import { SPFSyntacticalError } from "../src/SPFErrors";
+import { SPFMacroProcessor } from "../src/SPFMacroProcessor";
+import { spf_test_checked_context } from "./SPFTestContext";
+
+describe("SPFMacroProcessor", (): void => {
+  // [RFC7208 7.4] The examples of the macro expansion.
+  const sender: string = "strong-bad@email.example.com";
+  const domain: string = "email.example.com";
+
+  describe("expand() with the RFC 7208 examples", (): void => {
+    const vectors: [string, string][] = [
+      ["%{s}", "strong-bad@email.example.com"],
+      ["%{o}", "email.example.com"],
+      ["%{d}", "email.example.com"],
+      ["%{d4}", "email.example.com"],
+      ["%{d3}", "email.example.com"],
+      ["%{d2}", "example.com"],
+      ["%{d1}", "com"],
+      ["%{dr}", "com.example.email"],
+      ["%{d2r}", "example.email"],
+      ["%{l}", "strong-bad"],
+      ["%{l-}", "strong.bad"],
+      ["%{lr}", "strong-bad"],
+      ["%{lr-}", "bad.strong"],
+      ["%{l1r-}", "strong"],
+      ["%{ir}.%{v}._spf.%{d2}", "3.2.0.192.in-addr._spf.example.com"],
+      ["%{lr-}.lp._spf.%{d2}", "bad.strong.lp._spf.example.com"],
+      [
+        "%{lr-}.lp.%{ir}.%{v}._spf.%{d2}",
+        "bad.strong.lp.3.2.0.192.in-addr._spf.example.com",
+      ],
+      [
+        "%{ir}.%{v}.%{l1r-}.lp._spf.%{d2}",
+        "3.2.0.192.in-addr.strong.lp._spf.example.com",
+      ],
+      [
+        "%{d2}.trusted-domains.example.net",
+        "example.com.trusted-domains.example.net",
+      ],
+    ];
+
+    for (const [spec, expected] of vectors) {
+      it(`expands ${spec}`, (): void => {
+        assert.strictEqual(
+          SPFMacroProcessor.expand(
+            spec,
+            spf_test_checked_context("192.0.2.3", sender),
+            { domain }
+          ),
+          expected
+        );
+      });
+    }
+
+    it("expands an IPv6 address as nibbles", (): void => {
+      assert.strictEqual(
+        SPFMacroProcessor.expand(
+          "%{ir}.%{v}._spf.%{d2}",
+          spf_test_checked_context("2001:db8::cb01", sender),
+          { domain }
+        ),
+        "1.0.b.c.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6._spf.example.com"
+      );
+    });
+  });
+
+  describe("expand()", (): void => {
+    it("expands the escapes", (): void => {
+      assert.strictEqual(
+        SPFMacroProcessor.expand(
+          "%%%_%-",
+          spf_test_checked_context("192.0.2.3", sender),
+          { domain, exp: true }
+        ),
+        "% %20"
+      );
+    });
+
+    it("URL escapes uppercase macro's", (): void => {
+      assert.strictEqual(
+        SPFMacroProcessor.expand(
+          "%{S}",
+          spf_test_checked_context("192.0.2.3", "a b@example.com"),
+          { domain }
+        ),
+        "a%20b%40example.com"
+      );
+    });
+
+    it("only allows the c, r and t letters in explanations", (): void => {
+      const context: ISPFCheckedContext = spf_test_checked_context(
+        "192.0.2.3",
+        sender
+      );
+
+      assert.throws(
+        (): string => SPFMacroProcessor.expand("%{c}", context, { domain }),
+        SPFSyntacticalError
+      );
+      assert.strictEqual(
+        SPFMacroProcessor.expand("%{c} %{r}", context, { domain, exp: true }),
+        "192.0.2.3 mx.example.org"
+      );
+    });
+
+    it("rejects invalid macro's", (): void => {
+      const context: ISPFCheckedContext = spf_test_checked_context(
+        "192.0.2.3",
+        sender
+      );
+
+      for (const spec of ["%{x}", "%{d", "%a", "%"]) {
+        assert.throws(
+          (): string => SPFMacroProcessor.expand(spec, context, { domain }),
+          SPFSyntacticalError,
+          spec
+        );
+      }
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import assert from "assert";
+import dns from "dns";
+import {
+  SPFMockFailure,
+  SPFMockRecordType,
+  SPFMockResolver,
+} from "../src/SPFMockResolver";
+
+describe("SPFMockResolver", (): void => {
+  describe("fromZoneText()", (): void => {
+    const resolver: SPFMockResolver = SPFMockResolver.fromZoneText(`
+$ORIGIN example.com.
+$TTL 3600
+@     IN TXT  "v=spf1 mx " "-all" ; split in two character-strings
+      IN MX   10 mail
+mail  300 IN A 192.0.2.1
+mail  IN AAAA 2001:db8::1
+other.example.net. IN TXT ( "v=spf1"
+  " -all" )
+1.2.0.192.in-addr.arpa. IN PTR mail
+`);
+
+    it("keeps the character-strings of a TXT record", async (): Promise<void> => {
+      assert.deepStrictEqual(await resolver.resolveTxt("example.com"), [
+        ["v=spf1 mx ", "-all"],
+      ]);
+    });
+
+    it("continues the previous owner on indented lines", async (): Promise<void> => {
+      assert.deepStrictEqual(await resolver.resolveMx("example.com"), [
+        { priority: 10, exchange: "mail.example.com" },
+      ]);
+    });
+
+    it("skips the TTL and class", async (): Promise<void> => {
+      assert.deepStrictEqual(await resolver.resolve4("mail.example.com"), [
+        "192.0.2.1",
+      ]);
+      assert.deepStrictEqual(await resolver.resolve6("mail.example.com"), [
+        "2001:db8::1",
+      ]);
+    });
+
+    it("joins parenthesized lines", async (): Promise<void> => {
+      assert.deepStrictEqual(await resolver.resolveTxt("other.example.net"), [
+        ["v=spf1", " -all"],
+      ]);
+    });
+
+    it("answers reverse lookups", async (): Promise<void> => {
+      assert.deepStrictEqual(await resolver.reverse("192.0.2.1"), [
+        "mail.example.com",
+      ]);
+    });
+
+    it("ignores the case and trailing dot of names", async (): Promise<void> => {
+      assert.deepStrictEqual(await resolver.resolve4("MAIL.Example.COM."), [
+        "192.0.2.1",
+      ]);
+    });
+  });
+
+  describe("fromJSON()", (): void => {
+    it("answers from the parsed zone", async (): Promise<void> => {
+      const resolver: SPFMockResolver = SPFMockResolver.fromJSON(
+        '{"example.com": {"txt": ["v=spf1 -all"]}}'
+      );
+
+      assert.deepStrictEqual(await resolver.resolveTxt("example.com"), [
+        ["v=spf1 -all"],
+      ]);
+    });
+  });
+
+  describe("failures", (): void => {
+    /**
+     * Gets the code of the error the given promise rejects with.
+     * @param promise the promise.
+     * @returns the error code.
+     */
+    const code = async (promise: Promise<unknown>): Promise<string> => {
+      try {
+        await promise;
+      } catch (e) {
+        return (e as NodeJS.ErrnoException).code!;
+      }
+
+      assert.fail("The lookup did not fail");
+    };
+
+    const resolver: SPFMockResolver = SPFMockResolver.fromJSON({
+      "example.com": { a: ["192.0.2.1"] },
+      "broken.example.com": { failure: SPFMockFailure.ServFail },
+    }).fail("example.com", SPFMockFailure.Timeout, SPFMockRecordType.AAAA);
+
+    it("reports a missing name as ENOTFOUND", async (): Promise<void> => {
+      assert.strictEqual(
+        await code(resolver.resolve4("missing.example.com")),
+        dns.NOTFOUND
+      );
+    });
+
+    it("reports a name without records of the type as ENODATA", async (): Promise<void> => {
+      assert.strictEqual(
+        await code(resolver.resolveTxt("example.com")),
+        dns.NODATA
+      );
+    });
+
+    it("simulates the failures of the zone", async (): Promise<void> => {
+      assert.strictEqual(
+        await code(resolver.resolve4("broken.example.com")),
+        dns.SERVFAIL
+      );
+    });
+
+    it("simulates the failures of a single record type", async (): Promise<void> => {
+      assert.strictEqual(
+        await code(resolver.resolve6("example.com")),
+        dns.TIMEOUT
+      );
+      assert.deepStrictEqual(await resolver.resolve4("example.com"), [
+        "192.0.2.1",
+      ]);
+    });
+  });
+
+  it("records the queries in order", async (): Promise<void> => {
+    const resolver: SPFMockResolver = SPFMockResolver.fromJSON({
+      "example.com": { mx: [{ priority: 10, exchange: "mail.example.com" }] },
+    });
+
+    await resolver.resolveMx("Example.com");
+    await resolver.resolve4("mail.example.com").catch((): void => {});
+
+    assert.deepStrictEqual(resolver.queries, [
+      [SPFMockRecordType.MX, "example.com"],
+      [SPFMockRecordType.A, "mail.example.com"],
+    ]);
+  });
+});
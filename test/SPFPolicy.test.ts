@@ -0,0 +1,153 @@
+import assert from "assert";
+import { SPFSyntacticalError } from "../src/SPFErrors";
+import { SPFMockResolver } from "../src/SPFMockResolver";
+import {
+  SPFPolicy,
+  SPFPolicyAction,
+  SPFPolicyDecision,
+} from "../src/SPFPolicy";
+import { SPFResult, SPFResultType } from "../src/SPFResult";
+import { SPFValidator } from "../src/SPFValidator";
+import { spf_test_context } from "./SPFTestContext";
+
+/**
+ * Checks the MAIL FROM of a client against a small zone.
+ * @param ipAddress the encoded address of the client.
+ * @param hostname the domain to check, defaults to the domain of the sender.
+ * @returns the result.
+ */
+const spf_test_result = (
+  ipAddress: string,
+  hostname?: string
+): Promise<SPFResult> => {
+  const resolver: SPFMockResolver = SPFMockResolver.fromZoneText(`
+$ORIGIN example.com.
+@     IN TXT "v=spf1 ip4:192.0.2.0/24 ip4:198.51.100.0/24 -all exp=exp.%{d}"
+exp   IN TXT "%{i} is not one of our servers"
+soft  IN TXT "v=spf1 ip4:192.0.2.0/24 ~all"
+error IN TXT "v=spf1 foo"
+`);
+
+  return new SPFValidator(spf_test_context(ipAddress), undefined, {
+    resolver,
+  }).validate(hostname);
+};
+
+describe("SPFPolicy", (): void => {
+  describe("constructor", (): void => {
+    it("rejects an invalid explanation", (): void => {
+      assert.throws(
+        (): SPFPolicy => new SPFPolicy({ explanation: "%{x} bad" }),
+        SPFSyntacticalError
+      );
+    });
+
+    it("allows the letters of explanations", (): void => {
+      assert.doesNotThrow(
+        (): SPFPolicy => new SPFPolicy({ explanation: "%{c} at %{t}" })
+      );
+    });
+  });
+
+  describe("decide()", (): void => {
+    it("accepts a pass without reply", async (): Promise<void> => {
+      const decision: SPFPolicyDecision = new SPFPolicy().decide(
+        await spf_test_result("192.0.2.1")
+      );
+
+      assert.strictEqual(decision.action, SPFPolicyAction.Accept);
+      assert.strictEqual(decision.code, null);
+      assert.strictEqual(decision.toString(), "");
+    });
+
+    it("tags a softfail by default", async (): Promise<void> => {
+      const decision: SPFPolicyDecision = new SPFPolicy().decide(
+        await spf_test_result("203.0.113.1", "soft.example.com")
+      );
+
+      assert.strictEqual(decision.action, SPFPolicyAction.Tag);
+      assert.deepStrictEqual(decision.lines(), []);
+    });
+
+    it("rejects a fail with the explanation of the domain", async (): Promise<void> => {
+      const decision: SPFPolicyDecision = new SPFPolicy().decide(
+        await spf_test_result("203.0.113.1")
+      );
+
+      assert.strictEqual(decision.action, SPFPolicyAction.Reject);
+      assert.strictEqual(
+        decision.toString(),
+        "550 5.7.23 203.0.113.1 is not one of our servers"
+      );
+    });
+
+    it("explains the other results for the checked domain", async (): Promise<void> => {
+      const decision: SPFPolicyDecision = new SPFPolicy({
+        actions: { [SPFResultType.SoftFail]: SPFPolicyAction.Reject },
+        explanation: "%{c} may not send mail for %{d}",
+      }).decide(await spf_test_result("203.0.113.1", "soft.example.com"));
+
+      assert.strictEqual(
+        decision.toString(),
+        "550 5.7.23 203.0.113.1 may not send mail for soft.example.com"
+      );
+    });
+
+    it("replies errors with their problem", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_result(
+        "203.0.113.1",
+        "error.example.com"
+      );
+      const decision: SPFPolicyDecision = new SPFPolicy().decide(result);
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.strictEqual(decision.code, 550);
+      assert.strictEqual(decision.enhancedCode, "5.7.24");
+      assert.ok(decision.text!.endsWith(`: ${result.comment}`));
+    });
+
+    it("defers with 4.7.24, also for a fail", async (): Promise<void> => {
+      const decision: SPFPolicyDecision = new SPFPolicy({
+        actions: { [SPFResultType.Fail]: SPFPolicyAction.Defer },
+      }).decide(await spf_test_result("203.0.113.1"));
+
+      assert.strictEqual(decision.action, SPFPolicyAction.Defer);
+      assert.strictEqual(decision.code, 451);
+      assert.strictEqual(decision.enhancedCode, "4.7.24");
+    });
+  });
+
+  describe("SPFPolicyDecision", (): void => {
+    it("wraps a long reply over multiple lines", (): void => {
+      const decision: SPFPolicyDecision = new SPFPolicyDecision(
+        SPFPolicyAction.Reject,
+        550,
+        "5.7.23",
+        "one two three four five six",
+        23
+      );
+
+      assert.deepStrictEqual(decision.lines(), [
+        "550-5.7.23 one two",
+        "550-5.7.23 three four",
+        "550 5.7.23 five six",
+      ]);
+    });
+
+    it("splits words longer than a line", (): void => {
+      const decision: SPFPolicyDecision = new SPFPolicyDecision(
+        SPFPolicyAction.Reject,
+        550,
+        null,
+        "abcdefghij",
+        9
+      );
+
+      assert.deepStrictEqual(decision.lines(), [
+        "550-abcd",
+        "550-efgh",
+        "550 ij",
+      ]);
+    });
+  });
+});
@@ -0,0 +1,117 @@
+import assert from "assert";
+import {
+  SPFDirective,
+  SPFDirectiveQualifier,
+  SPFDualCIDRLength,
+} from "../src/SPFDirectives";
+import { SPFSyntacticalError } from "../src/SPFErrors";
+import { SPFRecord } from "../src/SPFRecord";
+import { SPFRecordBuilder } from "../src/SPFRecordBuilder";
+
+describe("SPFRecordBuilder", (): void => {
+  it("encodes the directives in order, followed by the modifiers", (): void => {
+    const record: SPFRecord = new SPFRecordBuilder()
+      .exp("explain.example.com")
+      .mx()
+      .ip4("192.0.2.0/24")
+      .ip6("2001:db8::/32")
+      .include("_spf.example.com")
+      .all(SPFDirectiveQualifier.SoftFail)
+      .build();
+
+    assert.strictEqual(
+      record.encode(),
+      "v=spf1 mx ip4:192.0.2.0/24 ip6:2001:db8::/32 include:_spf.example.com ~all exp=explain.example.com"
+    );
+  });
+
+  it("encodes the qualifiers", (): void => {
+    const record: SPFRecord = new SPFRecordBuilder()
+      .a(null, undefined, SPFDirectiveQualifier.Pass)
+      .mx(null, undefined, SPFDirectiveQualifier.Neutral)
+      .ptr("example.com", SPFDirectiveQualifier.SoftFail)
+      .all(SPFDirectiveQualifier.Fail)
+      .build();
+
+    assert.strictEqual(record.encode(), "v=spf1 a ?mx ~ptr:example.com -all");
+  });
+
+  it("encodes the dual CIDR lengths", (): void => {
+    const record: SPFRecord = new SPFRecordBuilder()
+      .a(null, new SPFDualCIDRLength(24))
+      .a("example.com", new SPFDualCIDRLength(null, 64))
+      .mx("example.com", new SPFDualCIDRLength(26, 64))
+      .build();
+
+    assert.strictEqual(
+      record.encode(),
+      "v=spf1 a/24 a:example.com//64 mx:example.com/26//64"
+    );
+  });
+
+  it("round-trips a decoded record", (): void => {
+    const raw: string =
+      "v=spf1 -exists:%{ir}.%{l1r+-}._spf.%{d} a:%{d/}.example.com/24 ~all redirect=_spf.example.com";
+
+    assert.strictEqual(
+      SPFRecordBuilder.from(SPFRecord.decode(raw)).build().encode(),
+      raw
+    );
+  });
+
+  it("edits a decoded record", (): void => {
+    const record: SPFRecord = SPFRecordBuilder.from(
+      SPFRecord.decode("v=spf1 mx include:old.example.com -all")
+    )
+      .remove((directive: SPFDirective): boolean =>
+        directive.toString().startsWith("include:")
+      )
+      .build();
+
+    assert.strictEqual(record.encode(), "v=spf1 mx -all");
+  });
+
+  it("splits the record into 255 byte character-strings", (): void => {
+    const builder: SPFRecordBuilder = new SPFRecordBuilder();
+    for (let i: number = 0; i < 40; ++i) {
+      builder.ip4(`192.0.2.${i}`);
+    }
+    const record: SPFRecord = builder.all(SPFDirectiveQualifier.Fail).build();
+    const strings: string[] = record.encodeStrings();
+
+    assert.strictEqual(strings.length, 3);
+    assert.strictEqual(strings[0].length, 255);
+    assert.strictEqual(strings[1].length, 255);
+    assert.strictEqual(strings.join(""), record.encode());
+  });
+
+  it("rejects invalid terms", (): void => {
+    assert.throws(
+      (): SPFRecordBuilder => new SPFRecordBuilder().include("bad domain"),
+      SPFSyntacticalError
+    );
+    assert.throws(
+      (): SPFRecordBuilder => new SPFRecordBuilder().exists("%{x}.example.com"),
+      SPFSyntacticalError
+    );
+    assert.throws(
+      (): SPFRecordBuilder => new SPFRecordBuilder().redirect(""),
+      SPFSyntacticalError
+    );
+  });
+
+  it("rejects a second redirect or exp", (): void => {
+    assert.throws(
+      (): SPFRecordBuilder =>
+        new SPFRecordBuilder().exp("a.example.com").exp("b.example.com"),
+      SPFSyntacticalError
+    );
+    assert.throws(
+      (): SPFRecordBuilder =>
+        SPFRecordBuilder.from(
+          SPFRecord.decode("v=spf1 redirect=a.example.com")
+        ).redirect("b.example.com"),
+      SPFSyntacticalError
+    );
+  });
+});
@@ -0,0 +1,136 @@
+import assert from "assert";
+import { SPFLintError } from "../src/SPFErrors";
+import { SPFMockResolver } from "../src/SPFMockResolver";
+import { SPFParseError } from "../src/SPFRecordParser";
+import { SPFRecord } from "../src/SPFRecord";
+import {
+  SPFLintCode,
+  SPFLintDiagnostic,
+  SPFLintSeverity,
+  SPFRecordLinter,
+} from "../src/SPFRecordLinter";
+
+/**
+ * Gets the codes and columns of the given diagnostics.
+ * @param diagnostics the diagnostics.
+ * @returns the codes and columns.
+ */
+const spf_test_codes = (
+  diagnostics: SPFLintDiagnostic[]
+): [SPFLintCode, number][] =>
+  diagnostics.map((diagnostic: SPFLintDiagnostic): [SPFLintCode, number] => [
+    diagnostic.code,
+    diagnostic.column,
+  ]);
+
+describe("SPFRecordLinter", (): void => {
+  describe("lint()", (): void => {
+    const linter: SPFRecordLinter = new SPFRecordLinter();
+
+    it("reports nothing for a sane record", async (): Promise<void> => {
+      assert.deepStrictEqual(
+        await linter.lint("v=spf1 mx ip4:192.0.2.0/24 -all"),
+        []
+      );
+    });
+
+    it("reports the risky patterns, at their column", async (): Promise<void> => {
+      assert.deepStrictEqual(
+        spf_test_codes(
+          await linter.lint("v=spf1 ptr +all mx foo=bar redirect=example.com")
+        ),
+        [
+          [SPFLintCode.DeprecatedPTR, 8],
+          [SPFLintCode.PassAll, 12],
+          [SPFLintCode.TermsAfterAll, 17],
+          [SPFLintCode.UnknownModifier, 20],
+          [SPFLintCode.RedirectWithAll, 28],
+        ]
+      );
+    });
+
+    it("reports syntax errors at the column of the parse error", async (): Promise<void> => {
+      const record: string = "v=spf1 a:/24 foo -all";
+
+      assert.throws(
+        (): SPFRecord => SPFRecord.decode(record),
+        (e: unknown): boolean => e instanceof SPFParseError && e.column === 8
+      );
+      assert.deepStrictEqual(spf_test_codes(await linter.lint(record)), [
+        [SPFLintCode.SyntaxError, 8],
+        [SPFLintCode.UnknownMechanism, 14],
+      ]);
+    });
+
+    it("reports an invalid version", async (): Promise<void> => {
+      const [diagnostic]: SPFLintDiagnostic[] = await linter.lint(
+        "v=spf2 -all"
+      );
+
+      assert.strictEqual(diagnostic.code, SPFLintCode.InvalidVersion);
+      assert.strictEqual(diagnostic.severity, SPFLintSeverity.Error);
+      assert.strictEqual(diagnostic.column, 1);
+    });
+
+    it("reports a record longer than recommended", async (): Promise<void> => {
+      const record: string = `v=spf1 ${"ip4:192.0.2.1 ".repeat(40)}-all`;
+
+      assert.deepStrictEqual(spf_test_codes(await linter.lint(record)), [
+        [SPFLintCode.RecordTooLong, 451],
+      ]);
+    });
+  });
+
+  describe("lintRecords()", (): void => {
+    it("reports a domain without, or with multiple records", async (): Promise<void> => {
+      const linter: SPFRecordLinter = new SPFRecordLinter();
+
+      assert.deepStrictEqual(
+        spf_test_codes(await linter.lintRecords(["not spf"])),
+        [[SPFLintCode.NoRecord, 1]]
+      );
+      assert.deepStrictEqual(
+        spf_test_codes(await linter.lintRecords(["v=spf1 -all", "v=spf1 mx"])),
+        [[SPFLintCode.MultipleRecords, 1]]
+      );
+    });
+  });
+
+  describe("lintDomain()", (): void => {
+    it("counts the lookups of included records", async (): Promise<void> => {
+      const linter: SPFRecordLinter = new SPFRecordLinter(
+        SPFMockResolver.fromZoneText(`
+$ORIGIN example.com.
+@    IN TXT "v=spf1 mx include:_spf.example.com -all"
+_spf IN TXT "v=spf1 a:h1.example.com a:h2.example.com a:h3.example.com include:_more.example.com"
+_more IN TXT "v=spf1 a:h4.example.com a:h5.example.com a:h6.example.com a:h7.example.com a:h8.example.com"
+`)
+      );
+
+      assert.deepStrictEqual(
+        spf_test_codes(await linter.lintDomain("example.com")),
+        [[SPFLintCode.TooManyLookups, 11]]
+      );
+    });
+
+    it("reports an include which cannot be expanded", async (): Promise<void> => {
+      const linter: SPFRecordLinter = new SPFRecordLinter(
+        SPFMockResolver.fromZoneText(
+          `example.com. IN TXT "v=spf1 include:missing.example.com -all"`
+        )
+      );
+
+      assert.deepStrictEqual(
+        spf_test_codes(await linter.lintDomain("example.com")),
+        [[SPFLintCode.LookupFailed, 8]]
+      );
+    });
+
+    it("throws without resolver", async (): Promise<void> => {
+      await assert.rejects(
+        new SPFRecordLinter().lintDomain("example.com"),
+        SPFLintError
+      );
+    });
+  });
+});
@@ -0,0 +1,106 @@
+import assert from "assert";
+import {
+  SPFExistsMechanism,
+  SPFIncludeMechanism,
+  SPFMechanism,
+} from "../src/SPFDirectives";
+import { SPFSyntacticalError } from "../src/SPFErrors";
+import { SPFRecord } from "../src/SPFRecord";
+import {
+  SPFParseError,
+  SPFParseErrorCode,
+  SPFRecordParser,
+  SPFTerm,
+} from "../src/SPFRecordParser";
+
+/**
+ * Parses the given record, and gets the error it throws.
+ * @param raw the raw record.
+ * @returns the parse error.
+ */
+const spf_test_parse_error = (raw: string): SPFParseError => {
+  try {
+    SPFRecordParser.parse(raw);
+  } catch (e) {
+    assert.ok(e instanceof SPFParseError, `${e}`);
+    return e;
+  }
+
+  return assert.fail(`Parsed "${raw}" without error`);
+};
+
+describe("SPFRecordParser", (): void => {
+  describe("tokenize()", (): void => {
+    it("skips the version, and keeps the offsets of the terms", (): void => {
+      assert.deepStrictEqual(
+        SPFRecordParser.tokenize("v=spf1  mx   -all").map(
+          (term: SPFTerm): [number, number, string] => [
+            term.index,
+            term.offset,
+            term.raw,
+          ]
+        ),
+        [
+          [0, 8, "mx"],
+          [1, 13, "-all"],
+        ]
+      );
+    });
+  });
+
+  describe("parse()", (): void => {
+    it("keeps the terms in order, with their values", (): void => {
+      const record: SPFRecord = SPFRecordParser.parse(
+        "v=spf1 include:_spf.example.com exists:%{i}.example.com -all"
+      );
+
+      assert.strictEqual(record.terms.length, 3);
+      assert.ok(record.directives[0].mechanism instanceof SPFIncludeMechanism);
+      assert.ok(record.directives[1].mechanism instanceof SPFExistsMechanism);
+      assert.strictEqual(
+        record.encode(),
+        "v=spf1 include:_spf.example.com exists:%{i}.example.com -all"
+      );
+    });
+
+    // The errors with their code, term index and (one based) column.
+    const errors: [string, SPFParseErrorCode, number, number][] = [
+      ["v=spf2 -all", SPFParseErrorCode.InvalidVersion, -1, 1],
+      ["v=spf1 mx !all", SPFParseErrorCode.InvalidTerm, 1, 11],
+      ["v=spf1 mx foo", SPFParseErrorCode.UnknownMechanism, 1, 11],
+      ["v=spf1 ip4:192.0.2", SPFParseErrorCode.InvalidMechanism, 0, 8],
+      ["v=spf1 exists: -all", SPFParseErrorCode.InvalidMechanism, 0, 8],
+      ["v=spf1 mx include:", SPFParseErrorCode.InvalidMechanism, 1, 11],
+      ["v=spf1 a:%{x}.example.com", SPFParseErrorCode.InvalidMechanism, 0, 8],
+      ["v=spf1 -all exp=", SPFParseErrorCode.InvalidModifier, 1, 13],
+      [
+        "v=spf1 redirect=a.example.com redirect=b.example.com",
+        SPFParseErrorCode.DuplicateModifier,
+        1,
+        31,
+      ],
+    ];
+
+    it("rejects an empty domain-spec when parsing the mechanism directly", (): void => {
+      assert.throws(
+        (): SPFMechanism => SPFExistsMechanism.parse(""),
+        SPFSyntacticalError
+      );
+      assert.throws(
+        (): SPFMechanism => SPFIncludeMechanism.parse(""),
+        SPFSyntacticalError
+      );
+    });
+
+    for (const [raw, code, termIndex, column] of errors) {
+      it(`gives ${code} at term ${termIndex}, column ${column} for "${raw}"`, (): void => {
+        const error: SPFParseError = spf_test_parse_error(raw);
+
+        assert.strictEqual(error.code, code);
+        assert.strictEqual(error.termIndex, termIndex);
+        assert.strictEqual(error.column, column);
+        assert.ok(error instanceof SPFSyntacticalError);
+      });
+    }
+  });
+});
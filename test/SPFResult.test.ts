@@ -0,0 +1,216 @@
+import assert from "assert";
+import { MimeHeaders } from "llibmime";
+import { SPFCheckedIdentity } from "../src/SPFCheckedIdentity";
+import { ISPFCheckedContext } from "../src/SPFContext";
+import { SPFMechanism } from "../src/SPFDirectives";
+import { SPFHeaderError } from "../src/SPFErrors";
+import { SPFRecord } from "../src/SPFRecord";
+import {
+  AUTHENTICATION_RESULTS_HEADER_KEY,
+  RECEIVED_SPF_HEADER_KEY,
+  SPFResult,
+  SPFResultType,
+  spf_header_fold,
+  spf_header_value_encode,
+} from "../src/SPFResult";
+import { spf_test_checked_context } from "./SPFTestContext";
+
+/**
+ * Unfolds the given header value.
+ * @param value the folded value.
+ * @returns the unfolded value.
+ */
+const spf_test_unfold = (value: string): string =>
+  value.replace(/\r\n(?=[ \t])/g, "");
+
+describe("SPFResult", (): void => {
+  const context: ISPFCheckedContext = spf_test_checked_context(
+    "192.0.2.1",
+    "alice@example.com"
+  );
+  const mechanism: SPFMechanism = SPFRecord.decode("v=spf1 ip4:192.0.2.0/24")
+    .directives[0].mechanism;
+
+  describe("asHeader()", (): void => {
+    it("gives the RFC 7208 format of a pass", (): void => {
+      const [key, value]: [string, string] = new SPFResult(
+        SPFResultType.Pass,
+        context,
+        mechanism
+      ).asHeader();
+
+      assert.strictEqual(key, RECEIVED_SPF_HEADER_KEY);
+      assert.strictEqual(
+        spf_test_unfold(value),
+        "pass (mx.example.org: domain of alice@example.com designates 192.0.2.1 as permitted sender) " +
+          'client-ip=192.0.2.1; envelope-from="alice@example.com"; helo=mail.example.com; ' +
+          'mechanism="ip4:192.0.2.0/24"; receiver=mx.example.org; identity=mailfrom;'
+      );
+    });
+
+    it("folds the lines to 78 characters", (): void => {
+      const [key, value]: [string, string] = new SPFResult(
+        SPFResultType.Pass,
+        context,
+        mechanism
+      ).asHeader();
+
+      for (const line of `${key}: ${value}`.split("\r\n")) {
+        assert.ok(line.length <= 78, line);
+      }
+    });
+
+    it("gives the problem of an error, instead of the mechanism", (): void => {
+      const [, value]: [string, string] = new SPFResult(
+        SPFResultType.PermError,
+        context,
+        null,
+        "Unknown SPF mechanism: foo"
+      ).asHeader();
+
+      assert.match(
+        spf_test_unfold(value),
+        / problem="Unknown SPF mechanism: foo"; receiver=/
+      );
+      assert.doesNotMatch(value, /mechanism=/);
+    });
+
+    it("gives the default mechanism if none matched, and none without record", (): void => {
+      assert.match(
+        spf_test_unfold(
+          new SPFResult(SPFResultType.Neutral, context).asHeader()[1]
+        ),
+        / mechanism=default; /
+      );
+      assert.doesNotMatch(
+        spf_test_unfold(
+          new SPFResult(SPFResultType.None, context).asHeader()[1]
+        ),
+        /mechanism=/
+      );
+    });
+
+    it("gives the HELO identity", (): void => {
+      const [, value]: [string, string] = new SPFResult(
+        SPFResultType.Fail,
+        {
+          ...context,
+          sender: {
+            emailUsername: "postmaster",
+            emailDomain: "mail.example.com",
+          },
+          identity: SPFCheckedIdentity.Helo,
+        },
+        mechanism
+      ).asHeader();
+
+      assert.match(
+        spf_test_unfold(value),
+        /^fail \(mx\.example\.org: domain of mail\.example\.com does not designate 192\.0\.2\.1 as permitted sender\) /
+      );
+      assert.match(spf_test_unfold(value), / identity=helo;$/);
+    });
+  });
+
+  describe("asAuthenticationResults()", (): void => {
+    const result: SPFResult = new SPFResult(
+      SPFResultType.Pass,
+      context,
+      mechanism
+    );
+
+    it("gives the RFC 8601 format of a MAIL FROM result", (): void => {
+      const [key, value]: [string, string] =
+        result.asAuthenticationResults("mx.example.org");
+
+      assert.strictEqual(key, AUTHENTICATION_RESULTS_HEADER_KEY);
+      assert.strictEqual(
+        spf_test_unfold(value),
+        "mx.example.org; spf=pass (mx.example.org: domain of alice@example.com designates 192.0.2.1 as permitted sender) " +
+          "smtp.mailfrom=alice@example.com smtp.helo=mail.example.com"
+      );
+    });
+
+    it("only gives the HELO domain of a HELO result", (): void => {
+      const [, value]: [string, string] = new SPFResult(
+        SPFResultType.Pass,
+        { ...context, identity: SPFCheckedIdentity.Helo },
+        mechanism
+      ).asAuthenticationResults();
+
+      assert.doesNotMatch(value, /smtp\.mailfrom=/);
+      assert.match(spf_test_unfold(value), / smtp\.helo=mail\.example\.com$/);
+    });
+
+    it("gives the reason of an error", (): void => {
+      const [, value]: [string, string] = new SPFResult(
+        SPFResultType.TempError,
+        context,
+        null,
+        "TXT lookup of example.com failed: ESERVFAIL"
+      ).asAuthenticationResults();
+
+      assert.match(
+        spf_test_unfold(value),
+        / reason="TXT lookup of example\.com failed: ESERVFAIL" /
+      );
+    });
+
+    it("merges into the value of the existing header, replacing none", (): void => {
+      const [, value]: [string, string] = result.asAuthenticationResults(
+        "mx.example.org",
+        "mx.example.org 1; none"
+      );
+
+      assert.match(spf_test_unfold(value), /^mx\.example\.org 1; spf=pass /);
+    });
+
+    it("merges into the existing header of the headers", (): void => {
+      const headers: MimeHeaders = new MimeHeaders();
+      headers.set(
+        AUTHENTICATION_RESULTS_HEADER_KEY,
+        "mx.example.org;\r\n dkim=pass header.d=example.com"
+      );
+      const [, value]: [string, string] = result.asAuthenticationResults(
+        "mx.example.org",
+        headers
+      );
+
+      assert.match(
+        spf_test_unfold(value),
+        /^mx\.example\.org; dkim=pass header\.d=example\.com; spf=pass /
+      );
+    });
+
+    it("refuses to merge into the header of another service", (): void => {
+      assert.throws(
+        (): [string, string] =>
+          result.asAuthenticationResults(
+            "mx.example.org",
+            "other.example.net; none"
+          ),
+        SPFHeaderError
+      );
+    });
+  });
+
+  describe("spf_header_value_encode()", (): void => {
+    it("quotes values which are no dot-atom", (): void => {
+      assert.strictEqual(spf_header_value_encode("example.com"), "example.com");
+      assert.strictEqual(spf_header_value_encode('a "b"'), '"a \\"b\\""');
+    });
+  });
+
+  describe("spf_header_fold()", (): void => {
+    it("folds on whitespace only", (): void => {
+      assert.strictEqual(
+        spf_header_fold("aaaa bbbb cccc", 0, 10),
+        "aaaa bbbb\r\n cccc"
+      );
+      assert.strictEqual(
+        spf_header_fold("aaaaaaaaaaaa", 0, 10),
+        "aaaaaaaaaaaa"
+      );
+    });
+  });
+});
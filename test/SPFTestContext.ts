@@ -0,0 +1,48 @@
+import { IPv4Address, IPv6Address } from "llibipaddress";
+import { SPFCheckedIdentity } from "../src/SPFCheckedIdentity";
+import { ISPFCheckedContext, ISPFContext } from "../src/SPFContext";
+
+/**
+ * Constructs the context of a test, the MAIL FROM identity is checked.
+ * @param ipAddress the encoded address of the client.
+ * @param sender the MAIL FROM address, null for a bounce message.
+ * @param greetHostname the HELO domain of the client.
+ * @returns the context.
+ */
+export const spf_test_context = (
+  ipAddress: string,
+  sender: string | null = "alice@example.com",
+  greetHostname: string = "mail.example.com"
+): ISPFContext => {
+  const [emailUsername, emailDomain]: string[] =
+    sender !== null ? sender.split("@") : [];
+
+  return {
+    server: { hostname: "mx.example.org" },
+    client: {
+      ipAddress: ipAddress.includes(":")
+        ? IPv6Address.decode(ipAddress)
+        : IPv4Address.decode(ipAddress),
+      greetHostname,
+    },
+    message: sender !== null ? { emailUsername, emailDomain } : null,
+  };
+};
+
+/**
+ * Constructs the checked context of a test, as used in the macro's.
+ * @param ipAddress the encoded address of the client.
+ * @param sender the checked sender.
+ * @returns the checked context.
+ */
+export const spf_test_checked_context = (
+  ipAddress: string,
+  sender: string
+): ISPFCheckedContext => {
+  const context: ISPFContext = spf_test_context(ipAddress, sender);
+  return {
+    ...context,
+    sender: context.message!,
+    identity: SPFCheckedIdentity.MailFrom,
+  };
+};
@@ -0,0 +1,842 @@
+import assert from "assert";
+import dns from "dns";
+import { SPFCheckedIdentity } from "../src/SPFCheckedIdentity";
+import { ISPFContext } from "../src/SPFContext";
+import { SPFLocalPolicyError } from "../src/SPFErrors";
+import {
+  SPF_LOCAL_POLICY_DEFAULT_BEST_GUESS,
+  SPFLocalPolicyRule,
+} from "../src/SPFLocalPolicy";
+import {
+  SPFMockFailure,
+  SPFMockRecordType,
+  SPFMockResolver,
+} from "../src/SPFMockResolver";
+import { ISPFResolver } from "../src/SPFResolver";
+import { SPFResult, SPFResultType } from "../src/SPFResult";
+import { ISPFTraceQuery, SPFTraceCheck, SPFTraceTerm } from "../src/SPFTrace";
+import {
+  ISPFValidationResults,
+  ISPFValidatorOptions,
+  SPFValidator,
+} from "../src/SPFValidator";
+import { spf_test_context } from "./SPFTestContext";
+
+/**
+ * Checks the MAIL FROM identity of alice@example.com against the given zone.
+ * @param zone the zone text, with example.com as origin.
+ * @param ipAddress the encoded address of the client.
+ * @param options the validator options, the resolver is added.
+ * @returns the result.
+ */
+const spf_test_validate = async (
+  zone: string | SPFMockResolver,
+  ipAddress: string = "192.0.2.1",
+  options: ISPFValidatorOptions = {}
+): Promise<SPFResult> => {
+  const resolver: SPFMockResolver =
+    typeof zone === "string"
+      ? SPFMockResolver.fromZoneText(`$ORIGIN example.com.\n${zone}`)
+      : zone;
+  const context: ISPFContext = spf_test_context(ipAddress);
+
+  return new SPFValidator(context, undefined, {
+    ...options,
+    resolver,
+  }).validate();
+};
+
+describe("SPFValidator", (): void => {
+  describe("DNS lookup limits", (): void => {
+    /**
+     * Builds a zone with a record of the given number of 'a' mechanisms.
+     * @param count the number of mechanisms.
+     * @param resolving if the names of the mechanisms resolve.
+     * @returns the zone text.
+     */
+    const zone = (count: number, resolving: boolean): string => {
+      const names: string[] = Array.from(
+        { length: count },
+        (_, index: number): string => `h${index}`
+      );
+
+      return [
+        `@ IN TXT "v=spf1 ${names
+          .map((name: string): string => `a:${name}.example.com`)
+          .join(" ")} -all"`,
+        ...(resolving
+          ? names.map((name: string): string => `${name} IN A 192.0.2.200`)
+          : []),
+      ].join("\n");
+    };
+
+    it("allows 10 terms causing lookups", async (): Promise<void> => {
+      assert.strictEqual(
+        (await spf_test_validate(zone(10, true))).type,
+        SPFResultType.Fail
+      );
+    });
+
+    it("gives permerror at the 11th term causing lookups", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(zone(11, true));
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.match(result.comment!, /More than 10 DNS lookups/);
+    });
+
+    it("counts the lookups of included records", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@ IN TXT "v=spf1 include:a.example.com include:b.example.com -all"
+a IN TXT "v=spf1 a:h1.example.com a:h2.example.com a:h3.example.com -all"
+b IN TXT "v=spf1 a:h4.example.com a:h5.example.com a:h6.example.com a:h7.example.com a:h8.example.com a:h9.example.com -all"
+${["h1", "h2", "h3", "h4", "h5", "h6", "h7", "h8", "h9"]
+  .map((name: string): string => `${name} IN A 192.0.2.200`)
+  .join("\n")}
+`);
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.match(result.comment!, /More than 10 DNS lookups/);
+    });
+
+    it("counts the lookups of redirected records", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@    IN TXT "v=spf1 a:h1.example.com a:h2.example.com redirect=_spf.example.com"
+_spf IN TXT "v=spf1 ${["h3", "h4", "h5", "h6", "h7", "h8", "h9", "h10"]
+        .map((name: string): string => `a:${name}.example.com`)
+        .join(" ")} -all"
+${["h1", "h2", "h3", "h4", "h5", "h6", "h7", "h8", "h9", "h10"]
+  .map((name: string): string => `${name} IN A 192.0.2.200`)
+  .join("\n")}
+`);
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.match(result.comment!, /More than 10 DNS lookups/);
+    });
+
+    it("gives permerror for more than 10 mail exchanges", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@ IN TXT "v=spf1 mx -all"
+${Array.from(
+  { length: 11 },
+  (_, index: number): string => `@ IN MX ${index} mx${index}`
+).join("\n")}
+`);
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+    });
+  });
+
+  describe("include mechanism", (): void => {
+    // [RFC7208 5.2] How the result of the included record maps to a match.
+    const mapping: [string, SPFResultType][] = [
+      ["+all", SPFResultType.Pass],
+      ["-all", SPFResultType.Neutral],
+      ["~all", SPFResultType.Neutral],
+      ["?all", SPFResultType.Neutral],
+      ["foo", SPFResultType.PermError],
+    ];
+
+    for (const [all, expected] of mapping) {
+      it(`gives ${expected} for an included "v=spf1 ${all}"`, async (): Promise<void> => {
+        const result: SPFResult = await spf_test_validate(`
+@   IN TXT "v=spf1 include:inc.example.com ?all"
+inc IN TXT "v=spf1 ${all}"
+`);
+
+        assert.strictEqual(result.type, expected);
+      });
+    }
+
+    it("gives permerror if the included domain has no record", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 include:inc.example.com ?all"`
+      );
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.strictEqual(
+        result.comment,
+        "include:inc.example.com resulted in none: could not resolve inc.example.com"
+      );
+    });
+
+    it("passes the problem of an include loop through as-is", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 include:example.com -all"`
+      );
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.strictEqual(
+        result.comment,
+        "More than 10 DNS lookups, exceeded at: include:example.com"
+      );
+    });
+
+    it("gives temperror if the lookup of the included record fails", async (): Promise<void> => {
+      const resolver: SPFMockResolver = SPFMockResolver.fromZoneText(
+        `
+$ORIGIN example.com.
+@ IN TXT "v=spf1 include:inc.example.com ?all"
+`
+      ).fail("inc.example.com", SPFMockFailure.ServFail);
+
+      assert.strictEqual(
+        (await spf_test_validate(resolver)).type,
+        SPFResultType.TempError
+      );
+    });
+  });
+
+  describe("checked identities", (): void => {
+    /**
+     * Constructs a validator for the given client, against a zone with a
+     *  record for the HELO domain, and one for the MAIL FROM domain.
+     * @param sender the MAIL FROM address, null for a bounce message.
+     * @param greetHostname the HELO domain of the client.
+     * @returns the validator.
+     */
+    const validator = (
+      sender: string | null,
+      greetHostname: string = "mail.example.com"
+    ): SPFValidator =>
+      new SPFValidator(
+        spf_test_context("192.0.2.1", sender, greetHostname),
+        undefined,
+        {
+          resolver: SPFMockResolver.fromZoneText(`
+$ORIGIN example.com.
+@                  IN TXT "v=spf1 -all"
+mail               IN TXT "v=spf1 exists:%{l}.users.example.com -all"
+postmaster.users   IN A   127.0.0.2
+`),
+        }
+      );
+
+    it("checks the HELO domain, with postmaster as local-part", async (): Promise<void> => {
+      const result: SPFResult = await validator(
+        "alice@example.com"
+      ).validateHelo();
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+      assert.strictEqual(result.context.identity, SPFCheckedIdentity.Helo);
+      assert.strictEqual(result.context.sender.emailUsername, "postmaster");
+      assert.strictEqual(result.context.sender.emailDomain, "mail.example.com");
+    });
+
+    it("checks the MAIL FROM domain", async (): Promise<void> => {
+      const result: SPFResult = await validator(
+        "alice@example.com"
+      ).validateMailFrom();
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+      assert.strictEqual(result.context.identity, SPFCheckedIdentity.MailFrom);
+    });
+
+    it("checks postmaster at the HELO domain for a null MAIL FROM", async (): Promise<void> => {
+      const result: SPFResult = await validator(null).validateMailFrom();
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+      assert.strictEqual(result.context.identity, SPFCheckedIdentity.MailFrom);
+      assert.strictEqual(result.context.sender.emailDomain, "mail.example.com");
+      assert.strictEqual(result.context.message, null);
+    });
+
+    it("gives none for a HELO which is no domain name", async (): Promise<void> => {
+      const result: SPFResult = await validator(
+        "alice@example.com",
+        "[192.0.2.1]"
+      ).validateHelo();
+
+      assert.strictEqual(result.type, SPFResultType.None);
+    });
+
+    it("checks both identities", async (): Promise<void> => {
+      const { helo, mailFrom }: ISPFValidationResults = await validator(
+        "alice@example.com"
+      ).validateAll();
+
+      assert.strictEqual(helo.type, SPFResultType.Pass);
+      assert.strictEqual(helo.context.identity, SPFCheckedIdentity.Helo);
+      assert.strictEqual(mailFrom.type, SPFResultType.Fail);
+      assert.strictEqual(
+        mailFrom.context.identity,
+        SPFCheckedIdentity.MailFrom
+      );
+    });
+  });
+
+  describe("p macro", (): void => {
+    it("expands to the validated name of the client", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@                       IN TXT "v=spf1 exists:%{p}.p.example.com -all"
+1.2.0.192.in-addr.arpa. IN PTR mail
+mail                    IN A   192.0.2.1
+mail.example.com.p      IN A   127.0.0.2
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("expands to unknown without validated names", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@                       IN TXT "v=spf1 exists:%{p}.p.example.com -all"
+1.2.0.192.in-addr.arpa. IN PTR mail
+mail                    IN A   192.0.2.2
+unknown.p               IN A   127.0.0.2
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("prefers a name within the domain", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@                       IN TXT "v=spf1 exists:%{p}.p.example.com -all"
+1.2.0.192.in-addr.arpa. IN PTR mail.example.net.
+                        IN PTR mail
+mail.example.net.       IN A   192.0.2.1
+mail                    IN A   192.0.2.1
+mail.example.com.p      IN A   127.0.0.2
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("counts the lookup of the validated names", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@ IN TXT "v=spf1 ${Array.from(
+        { length: 9 },
+        (_, index: number): string => `a:h${index}.example.com`
+      ).join(" ")} exists:%{p}.p.example.com -all"
+${Array.from(
+  { length: 9 },
+  (_, index: number): string => `h${index} IN A 192.0.2.200`
+).join("\n")}
+`);
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.match(result.comment!, /More than 10 DNS lookups/);
+    });
+  });
+
+  describe("ptr mechanism", (): void => {
+    it("matches a validated name within the domain", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@                       IN TXT "v=spf1 ptr -all"
+1.2.0.192.in-addr.arpa. IN PTR mail.out
+mail.out                IN A   192.0.2.1
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("matches a validated IPv6 name", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `
+@    IN TXT  "v=spf1 ptr:example.com -all"
+1.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.0.8.b.d.0.1.0.0.2.ip6.arpa. IN PTR mail
+mail IN AAAA 2001:db8::1
+`,
+        "2001:db8::1"
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("does not match a name which does not resolve back", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@                       IN TXT "v=spf1 ptr -all"
+1.2.0.192.in-addr.arpa. IN PTR mail
+mail                    IN A   192.0.2.2
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+    });
+
+    it("only matches at a label boundary", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@                       IN TXT "v=spf1 ptr -all"
+1.2.0.192.in-addr.arpa. IN PTR mail.badexample.com.
+mail.badexample.com.    IN A   192.0.2.1
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+    });
+
+    it("does not match if the reverse lookup fails", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 ptr -all"`
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+    });
+  });
+
+  describe("timeouts", (): void => {
+    /**
+     * Constructs a resolver, of which the lookups of the given name time out.
+     * @param record the record of example.com.
+     * @param name the name of which the lookups time out.
+     * @returns the resolver.
+     */
+    const resolver = (record: string, name: string): SPFMockResolver =>
+      SPFMockResolver.fromZoneText(
+        `example.com. IN TXT "${record}"`,
+        ".",
+        200
+      ).fail(name, SPFMockFailure.Timeout);
+
+    it("gives temperror if a query takes too long", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        resolver("v=spf1 a:slow.example.com -all", "slow.example.com"),
+        "192.0.2.1",
+        { queryTimeout: 20 }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.TempError);
+      assert.match(result.comment!, /timed out after 20 ms/);
+    });
+
+    it("gives temperror if the check takes too long", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        resolver("v=spf1 a:slow.example.com -all", "slow.example.com"),
+        "192.0.2.1",
+        { totalTimeout: 20 }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.TempError);
+      assert.match(result.comment!, /before the evaluation deadline/);
+    });
+
+    it("gives temperror if the reverse lookup of ptr times out", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        resolver("v=spf1 ptr -all", "1.2.0.192.in-addr.arpa"),
+        "192.0.2.1",
+        { queryTimeout: 20 }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.TempError);
+    });
+
+    it("gives temperror if the lookup of a validated name times out", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        SPFMockResolver.fromZoneText(
+          `
+$ORIGIN example.com.
+@                       IN TXT "v=spf1 exists:%{p}.p.example.com -all"
+1.2.0.192.in-addr.arpa. IN PTR mail
+`,
+          ".",
+          200
+        ).fail("mail.example.com", SPFMockFailure.Timeout),
+        "192.0.2.1",
+        { queryTimeout: 20 }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.TempError);
+    });
+  });
+
+  describe("void lookups", (): void => {
+    /**
+     * Builds a zone with a record of the given number of 'a' mechanisms, of
+     *  which the names do not exist.
+     * @param count the number of mechanisms.
+     * @returns the zone text.
+     */
+    const zone = (count: number): string =>
+      `@ IN TXT "v=spf1 ${Array.from(
+        { length: count },
+        (_, index: number): string => `a:h${index}.example.com`
+      ).join(" ")} -all"`;
+
+    it("allows 2 void lookups", async (): Promise<void> => {
+      assert.strictEqual(
+        (await spf_test_validate(zone(2))).type,
+        SPFResultType.Fail
+      );
+    });
+
+    it("gives permerror at the 3rd void lookup", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(zone(3));
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.match(result.comment!, /More than 2 void DNS lookups/);
+    });
+
+    it("does not count the address lookups of mail exchanges as void", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `
+@ IN TXT "v=spf1 mx ip6:2001:db8::1 -all"
+@ IN MX  10 a
+@ IN MX  20 b
+@ IN MX  30 c
+a IN A   192.0.2.1
+b IN A   192.0.2.2
+c IN A   192.0.2.3
+`,
+        "2001:db8::1"
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("does not count the lookup of the explanation as void", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 a:h1.example.com a:h2.example.com -all exp=missing.example.com"`
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+      assert.strictEqual(result.explaination, null);
+    });
+
+    it("counts plain objects a resolver rejects with", async (): Promise<void> => {
+      const mock: SPFMockResolver = SPFMockResolver.fromZoneText(
+        `$ORIGIN example.com.\n${zone(3)}`
+      );
+      const resolver: ISPFResolver = {
+        resolveTxt: (hostname: string): Promise<string[][]> =>
+          mock.resolveTxt(hostname),
+        resolve4: (): Promise<string[]> =>
+          Promise.reject({ code: dns.NOTFOUND }),
+        resolve6: (): Promise<string[]> =>
+          Promise.reject({ code: dns.NOTFOUND }),
+        resolveMx: (): Promise<dns.MxRecord[]> =>
+          Promise.reject({ code: dns.NODATA }),
+        reverse: (): Promise<string[]> =>
+          Promise.reject({ code: dns.NOTFOUND }),
+      };
+      const result: SPFResult = await new SPFValidator(
+        spf_test_context("192.0.2.1"),
+        undefined,
+        { resolver }
+      ).validate();
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.match(result.comment!, /More than 2 void DNS lookups/);
+    });
+  });
+
+  describe("record selection", (): void => {
+    it("gives permerror for multiple records", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@ IN TXT "v=spf1 +all"
+@ IN TXT "v=spf1 -all"
+`);
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+      assert.match(result.comment!, /Found 2 SPF records/);
+    });
+
+    it("ignores other TXT records", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@ IN TXT "google-site-verification=abc"
+@ IN TXT "v=spf10 -all"
+@ IN TXT "v=spf1 " "+all"
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("gives none without record", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf10 -all"`
+      );
+
+      assert.strictEqual(result.type, SPFResultType.None);
+    });
+  });
+
+  describe("modifiers", (): void => {
+    it("ignores unknown modifiers", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 foo=bar moo=%{d}.example.com +all"`
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("gives permerror for an unknown modifier with an invalid macro", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 foo=%{x} +all"`
+      );
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+    });
+
+    for (const record of [
+      "v=spf1 redirect=a.example.com redirect=b.example.com",
+      "v=spf1 -all exp=a.example.com exp=b.example.com",
+      "v=spf1 redirect=",
+      "v=spf1 -all exp=",
+    ]) {
+      it(`gives permerror for "${record}"`, async (): Promise<void> => {
+        const result: SPFResult = await spf_test_validate(
+          `@ IN TXT "${record}"`
+        );
+
+        assert.strictEqual(result.type, SPFResultType.PermError);
+      });
+    }
+  });
+
+  describe("redirect modifier", (): void => {
+    it("gives the result of the redirected record", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@   IN TXT "v=spf1 redirect=_spf.example.com"
+_spf IN TXT "v=spf1 -all"
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+    });
+
+    it("is only applied after all directives", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@    IN TXT "v=spf1 redirect=_spf.example.com ip4:203.0.113.1 ip4:192.0.2.1"
+_spf IN TXT "v=spf1 -all"
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("is ignored if a mechanism matched", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(`
+@    IN TXT "v=spf1 +all redirect=_spf.example.com"
+_spf IN TXT "v=spf1 -all"
+`);
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+    });
+
+    it("gives permerror if the redirected domain has no record", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 redirect=_spf.example.com"`
+      );
+
+      assert.strictEqual(result.type, SPFResultType.PermError);
+    });
+  });
+
+  describe("trace", (): void => {
+    const zone: string = `
+@    IN TXT "v=spf1 a:%{l}.example.com include:_spf.example.com -all"
+_spf IN TXT "v=spf1 ip4:198.51.100.0/24 ~all"
+`;
+
+    it("is not recorded by default", async (): Promise<void> => {
+      assert.strictEqual((await spf_test_validate(zone)).trace, null);
+    });
+
+    it("records the checks, terms and queries", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(zone, "192.0.2.1", {
+        trace: true,
+      });
+      const root: SPFTraceCheck = result.trace!;
+
+      assert.strictEqual(root.domain, "example.com");
+      assert.strictEqual(
+        root.record,
+        "v=spf1 a:%{l}.example.com include:_spf.example.com -all"
+      );
+      assert.strictEqual(root.result, SPFResultType.Fail);
+      assert.deepStrictEqual(
+        root.queries.map((query: ISPFTraceQuery): string => query.type),
+        ["TXT"]
+      );
+
+      const [a, include, all]: SPFTraceTerm[] = root.terms;
+      assert.strictEqual(a.domain, "alice.example.com");
+      assert.strictEqual(a.match, false);
+      assert.strictEqual(a.queries[0].name, "alice.example.com");
+      assert.strictEqual(a.queries[0].answer, null);
+      assert.strictEqual(include.match, false);
+      assert.strictEqual(include.checks[0].domain, "_spf.example.com");
+      assert.strictEqual(include.checks[0].result, SPFResultType.SoftFail);
+      assert.strictEqual(all.qualifier, "-");
+      assert.strictEqual(all.match, true);
+    });
+
+    it("is JSON serializable", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(zone, "192.0.2.1", {
+        trace: true,
+      });
+
+      assert.deepStrictEqual(
+        JSON.parse(JSON.stringify(result.trace)).terms[1].checks[0].record,
+        "v=spf1 ip4:198.51.100.0/24 ~all"
+      );
+    });
+  });
+
+  describe("local policy", (): void => {
+    const forwarder: string = `
+1.2.0.192.in-addr.arpa. IN PTR relay.lists.example.net.
+relay.lists.example.net. IN A 192.0.2.1
+`;
+
+    it("throws on an invalid trusted network", (): void => {
+      assert.throws(
+        (): SPFValidator =>
+          new SPFValidator(spf_test_context("192.0.2.1"), undefined, {
+            localPolicy: { trustedNetworks: ["bogus"] },
+          }),
+        SPFLocalPolicyError
+      );
+    });
+
+    it("throws on an invalid best guess record", (): void => {
+      assert.throws(
+        (): SPFValidator =>
+          new SPFValidator(spf_test_context("192.0.2.1"), undefined, {
+            localPolicy: { bestGuess: "v=spf1 foo" },
+          }),
+        SPFLocalPolicyError
+      );
+    });
+
+    it("passes a trusted network without looking at the record", async (): Promise<void> => {
+      const resolver: SPFMockResolver = SPFMockResolver.fromZoneText(
+        `$ORIGIN example.com.\n@ IN TXT "v=spf1 -all"`
+      );
+      const result: SPFResult = await spf_test_validate(resolver, "192.0.2.1", {
+        localPolicy: { trustedNetworks: ["192.0.2.0/24"] },
+      });
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+      assert.strictEqual(result.policy, SPFLocalPolicyRule.TrustedNetwork);
+      assert.strictEqual(result.published, null);
+      assert.strictEqual(result.domain, "example.com");
+      assert.deepStrictEqual(resolver.queries, []);
+    });
+
+    it("checks the record of clients outside the trusted networks", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 -all"`,
+        "203.0.113.1",
+        { localPolicy: { trustedNetworks: ["192.0.2.0/24"] } }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+      assert.strictEqual(result.policy, null);
+    });
+
+    it("passes a trusted forwarder instead of a fail", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 -all"${forwarder}`,
+        "192.0.2.1",
+        { localPolicy: { trustedForwarders: ["lists.example.net"] } }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+      assert.strictEqual(result.policy, SPFLocalPolicyRule.TrustedForwarder);
+      assert.strictEqual(result.published?.type, SPFResultType.Fail);
+      assert.strictEqual(
+        result.comment,
+        "192.0.2.1 is the trusted forwarder relay.lists.example.net"
+      );
+    });
+
+    it("does not pass a trusted forwarder instead of an error", async (): Promise<void> => {
+      for (const [zone, type] of [
+        [`@ IN TXT "v=spf1 foo"`, SPFResultType.PermError],
+        [`@ IN TXT "v=spf1 a:down.example.com -all"`, SPFResultType.TempError],
+      ] as [string, SPFResultType][]) {
+        const resolver: SPFMockResolver = SPFMockResolver.fromZoneText(
+          `$ORIGIN example.com.\n${zone}${forwarder}`
+        ).fail("down.example.com", SPFMockFailure.ServFail);
+        const result: SPFResult = await spf_test_validate(
+          resolver,
+          "192.0.2.1",
+          { localPolicy: { trustedForwarders: ["lists.example.net"] } }
+        );
+
+        assert.strictEqual(result.type, type);
+        assert.strictEqual(result.policy, null);
+        assert.strictEqual(result.published, null);
+      }
+    });
+
+    it("does not pass a forwarder which is not trusted", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN TXT "v=spf1 -all"${forwarder}`,
+        "192.0.2.1",
+        { localPolicy: { trustedForwarders: ["example.net.invalid"] } }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+      assert.strictEqual(result.policy, null);
+    });
+
+    it("counts the forwarder lookup against the limit of the check", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `
+@ IN TXT "v=spf1 a a a a a a a a a a -all"
+@ IN A   198.51.100.1
+${forwarder}`,
+        "192.0.2.1",
+        { localPolicy: { trustedForwarders: ["lists.example.net"] } }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+      assert.strictEqual(result.policy, null);
+    });
+
+    it("keeps the verdict if the forwarder lookup fails", async (): Promise<void> => {
+      const resolver: SPFMockResolver = SPFMockResolver.fromZoneText(
+        `$ORIGIN example.com.\n@ IN TXT "v=spf1 -all"${forwarder}`
+      ).fail(
+        "relay.lists.example.net",
+        SPFMockFailure.Timeout,
+        SPFMockRecordType.A
+      );
+      const result: SPFResult = await spf_test_validate(resolver, "192.0.2.1", {
+        localPolicy: { trustedForwarders: ["lists.example.net"] },
+      });
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+      assert.strictEqual(result.policy, null);
+    });
+
+    it("checks a domain without record against the best guess", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN A 192.0.2.200`,
+        "192.0.2.1",
+        { localPolicy: { bestGuess: SPF_LOCAL_POLICY_DEFAULT_BEST_GUESS } }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+      assert.strictEqual(result.policy, SPFLocalPolicyRule.BestGuess);
+      assert.strictEqual(result.published?.type, SPFResultType.None);
+      assert.ok(result.describe().startsWith("best guess record, "));
+    });
+
+    it("does not guess for a domain with a record", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `
+@ IN TXT "v=spf1 -all"
+@ IN A   192.0.2.200
+`,
+        "192.0.2.1",
+        { localPolicy: { bestGuess: SPF_LOCAL_POLICY_DEFAULT_BEST_GUESS } }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Fail);
+      assert.strictEqual(result.policy, null);
+    });
+
+    it("keeps the published verdict if a forwarder overrides the best guess", async (): Promise<void> => {
+      const result: SPFResult = await spf_test_validate(
+        `@ IN A 198.51.100.1${forwarder}`,
+        "192.0.2.1",
+        {
+          localPolicy: {
+            bestGuess: "v=spf1 a -all",
+            trustedForwarders: ["lists.example.net"],
+          },
+        }
+      );
+
+      assert.strictEqual(result.type, SPFResultType.Pass);
+      assert.strictEqual(result.policy, SPFLocalPolicyRule.TrustedForwarder);
+      assert.strictEqual(result.published?.type, SPFResultType.None);
+    });
+  });
+});